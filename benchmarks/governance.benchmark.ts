@@ -0,0 +1,108 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { type ContractFunctionInteractionCallIntent } from "@aztec/aztec.js/authorization";
+import {
+  Benchmark,
+  type BenchmarkContext,
+} from "@defi-wonderland/aztec-benchmark";
+
+import { GovernanceContract } from "../src/artifacts/Governance.js";
+import { TokenContract } from "../src/artifacts/Token.js";
+import { NFTContract } from "../src/artifacts/NFT.js";
+import { GovernanceClient, VoteChoice } from "../src/ts/governance_client.js";
+import { deployNFT, deployToken, setupBenchmarkWallet } from "./utils.js";
+
+const TREASURY_AMOUNT = 1000n;
+const PROPOSAL_AMOUNT = 100n;
+const NFT_TOKEN_ID = 1n;
+
+interface GovernanceBenchmarkContext extends BenchmarkContext {
+  wallet: Wallet;
+  accounts: AztecAddress[];
+  governance: GovernanceContract;
+  token: TokenContract;
+  nft: NFTContract;
+  newMember: AztecAddress;
+}
+
+export default class GovernanceContractBenchmark extends Benchmark {
+  /**
+   * Deploys a Governance instance with its keys registered in the wallet,
+   * three members and a treasury holding tokens and an NFT.
+   * Proposal 0 is open for votes, proposal 1 (tokens) and proposal 2 (the
+   * NFT) passed and can be executed.
+   */
+  async setup(): Promise<GovernanceBenchmarkContext> {
+    const { node, wallet, accounts } = await setupBenchmarkWallet();
+    const [alice, bob, carol] = accounts;
+
+    const gov = await GovernanceClient.deploy(
+      { wallet, node, from: alice },
+      { admin: alice },
+    );
+    await gov.addMember(bob);
+    await gov.addMember(carol);
+
+    const token = await deployToken(wallet, alice);
+    await token.methods
+      .mint_to_private(gov.address, TREASURY_AMOUNT)
+      .send({ from: alice })
+      .wait();
+
+    const nft = await deployNFT(wallet, alice);
+    await nft.methods
+      .mint_to_private(gov.address, NFT_TOKEN_ID)
+      .send({ from: alice })
+      .wait();
+
+    const action = {
+      token: token.address,
+      amount: PROPOSAL_AMOUNT,
+      recipient: bob,
+    };
+    await gov.createProposal(action);
+    await gov.createProposal(action);
+    await gov.createProposal({
+      kind: "nft",
+      nft: nft.address,
+      tokenId: NFT_TOKEN_ID,
+      recipient: bob,
+    });
+    for (const member of [alice, bob, carol]) {
+      await gov.withSender(member).castVote(1n, VoteChoice.For);
+      await gov.withSender(member).castVote(2n, VoteChoice.For);
+    }
+
+    const governance = await GovernanceContract.at(gov.address, wallet);
+    const newMember = await AztecAddress.random();
+
+    return { wallet, accounts, governance, token, nft, newMember };
+  }
+
+  /**
+   * Returns the list of Governance methods to be benchmarked.
+   */
+  getMethods(
+    context: GovernanceBenchmarkContext,
+  ): ContractFunctionInteractionCallIntent[] {
+    const { wallet, accounts, governance, token, nft, newMember } = context;
+    const [alice, bob, carol] = accounts;
+    const methods = governance.withWallet(wallet).methods;
+
+    return [
+      {
+        caller: alice,
+        action: methods.create_proposal(token.address, PROPOSAL_AMOUNT, bob),
+      },
+      {
+        caller: alice,
+        action: methods.create_nft_proposal(nft.address, NFT_TOKEN_ID, bob),
+      },
+      { caller: bob, action: methods.cast_vote(0n, VoteChoice.For) },
+      { caller: alice, action: methods.add_member(newMember) },
+      { caller: alice, action: methods.remove_member(carol) },
+      { caller: alice, action: methods.withdraw(1n) },
+      { caller: alice, action: methods.withdraw_nft(2n) },
+    ];
+  }
+}
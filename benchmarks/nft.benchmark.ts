@@ -0,0 +1,105 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { type ContractFunctionInteractionCallIntent } from "@aztec/aztec.js/authorization";
+import {
+  Benchmark,
+  type BenchmarkContext,
+} from "@defi-wonderland/aztec-benchmark";
+
+import { NFTContract } from "../src/artifacts/NFT.js";
+import { deployNFT, setupBenchmarkWallet } from "./utils.js";
+
+// Each transfer moves its own token so they don't depend on one another
+const PRIVATE_TOKEN_IDS = [1n, 2n, 3n];
+const PUBLIC_TOKEN_IDS = [4n, 5n];
+
+interface NFTBenchmarkContext extends BenchmarkContext {
+  wallet: Wallet;
+  accounts: AztecAddress[];
+  nft: NFTContract;
+}
+
+export default class NFTContractBenchmark extends Benchmark {
+  /**
+   * Deploys an NFT and mints the deployer private and public tokens.
+   */
+  async setup(): Promise<NFTBenchmarkContext> {
+    const { wallet, accounts } = await setupBenchmarkWallet();
+    const [alice] = accounts;
+
+    const nft = await deployNFT(wallet, alice);
+    for (const tokenId of PRIVATE_TOKEN_IDS) {
+      await nft.methods
+        .mint_to_private(alice, tokenId)
+        .send({ from: alice })
+        .wait();
+    }
+    for (const tokenId of PUBLIC_TOKEN_IDS) {
+      await nft.methods
+        .mint_to_public(alice, tokenId)
+        .send({ from: alice })
+        .wait();
+    }
+
+    return { wallet, accounts, nft };
+  }
+
+  /**
+   * Returns the list of NFT transfer methods to be benchmarked.
+   */
+  getMethods(
+    context: NFTBenchmarkContext,
+  ): ContractFunctionInteractionCallIntent[] {
+    const { wallet, accounts, nft } = context;
+    const [alice, bob] = accounts;
+    const methods = nft.withWallet(wallet).methods;
+
+    return [
+      {
+        caller: alice,
+        action: methods.transfer_private_to_private(
+          alice,
+          bob,
+          PRIVATE_TOKEN_IDS[0],
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_private_to_public(
+          alice,
+          bob,
+          PRIVATE_TOKEN_IDS[1],
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_private_to_public_with_commitment(
+          alice,
+          bob,
+          PRIVATE_TOKEN_IDS[2],
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_public_to_private(
+          alice,
+          bob,
+          PUBLIC_TOKEN_IDS[0],
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_public_to_public(
+          alice,
+          bob,
+          PUBLIC_TOKEN_IDS[1],
+          0,
+        ),
+      },
+    ];
+  }
+}
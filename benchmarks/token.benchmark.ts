@@ -0,0 +1,120 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { type Fr } from "@aztec/aztec.js/fields";
+import { type ContractFunctionInteractionCallIntent } from "@aztec/aztec.js/authorization";
+import {
+  Benchmark,
+  type BenchmarkContext,
+} from "@defi-wonderland/aztec-benchmark";
+
+import { TokenContract } from "../src/artifacts/Token.js";
+import { TokenClient } from "../src/ts/token_client.js";
+import { deployToken, setupBenchmarkWallet } from "./utils.js";
+
+const AMOUNT = 1000n;
+
+interface TokenBenchmarkContext extends BenchmarkContext {
+  wallet: Wallet;
+  accounts: AztecAddress[];
+  token: TokenContract;
+  commitments: Fr[];
+}
+
+export default class TokenContractBenchmark extends Benchmark {
+  /**
+   * Deploys a Token, funds the deployer with private and public balances and
+   * initializes one commitment to bob per completion, completed by the deployer.
+   */
+  async setup(): Promise<TokenBenchmarkContext> {
+    const { node, wallet, accounts } = await setupBenchmarkWallet();
+    const [alice, bob] = accounts;
+
+    const token = await deployToken(wallet, alice);
+    await token.methods
+      .mint_to_private(alice, AMOUNT)
+      .send({ from: alice })
+      .wait();
+    await token.methods
+      .mint_to_public(alice, AMOUNT)
+      .send({ from: alice })
+      .wait();
+
+    const client = await TokenClient.connect(
+      { wallet, node, from: alice },
+      token.address,
+    );
+    const commitments: Fr[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = await client.initializeCommitment(alice, bob);
+      commitments.push(value);
+    }
+
+    return { wallet, accounts, token, commitments };
+  }
+
+  /**
+   * Returns the list of Token transfer and commitment methods to be benchmarked.
+   */
+  getMethods(
+    context: TokenBenchmarkContext,
+  ): ContractFunctionInteractionCallIntent[] {
+    const { wallet, accounts, token, commitments } = context;
+    const [alice, bob] = accounts;
+    const methods = token.withWallet(wallet).methods;
+    const amount = AMOUNT / 10n;
+
+    return [
+      {
+        caller: alice,
+        action: methods.transfer_private_to_private(alice, bob, amount, 0),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_private_to_public(alice, bob, amount, 0),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_public_to_private(alice, bob, amount, 0),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_public_to_public(alice, bob, amount, 0),
+      },
+      {
+        caller: alice,
+        action: methods.initialize_transfer_commitment(bob, alice),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_private_to_public_with_commitment(
+          alice,
+          bob,
+          amount,
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_private_to_commitment(
+          alice,
+          commitments[0],
+          amount,
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.transfer_public_to_commitment(
+          alice,
+          commitments[1],
+          amount,
+          0,
+        ),
+      },
+      {
+        caller: alice,
+        action: methods.mint_to_commitment(commitments[2], amount),
+      },
+    ];
+  }
+}
@@ -0,0 +1,54 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import {
+  registerInitialSandboxAccountsInWallet,
+  TestWallet,
+} from "@aztec/test-wallet/server";
+import { TokenContract } from "../src/artifacts/Token.js";
+import { NFTContract } from "../src/artifacts/NFT.js";
+
+/**
+ * Connects to the node and creates a wallet holding the sandbox accounts
+ */
+export async function setupBenchmarkWallet() {
+  const { NODE_URL = "http://localhost:8080" } = process.env;
+  const node = createAztecNodeClient(NODE_URL);
+  await waitForNode(node);
+
+  const wallet: TestWallet = await TestWallet.create(node);
+  const accounts: AztecAddress[] =
+    await registerInitialSandboxAccountsInWallet(wallet);
+
+  return { node, wallet, accounts };
+}
+
+/**
+ * Deploys a Token the deployer can mint
+ */
+export async function deployToken(wallet: TestWallet, minter: AztecAddress) {
+  return TokenContract.deployWithOpts(
+    { wallet, method: "constructor_with_minter" },
+    "PrivateToken",
+    "PT",
+    18,
+    minter,
+    AztecAddress.ZERO,
+  )
+    .send({ from: minter })
+    .deployed();
+}
+
+/**
+ * Deploys an NFT the deployer can mint
+ */
+export async function deployNFT(wallet: TestWallet, minter: AztecAddress) {
+  return NFTContract.deployWithOpts(
+    { wallet, method: "constructor_with_minter" },
+    "PrivateNFT",
+    "PNFT",
+    minter,
+    AztecAddress.ZERO,
+  )
+    .send({ from: minter })
+    .deployed();
+}
@@ -0,0 +1,138 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import {
+  type AuthWitness,
+  type ContractFunctionInteractionCallIntent,
+} from "@aztec/aztec.js/authorization";
+import {
+  Benchmark,
+  type BenchmarkContext,
+} from "@defi-wonderland/aztec-benchmark";
+
+import { TokenContract } from "../src/artifacts/Token.js";
+import { deployToken, setupBenchmarkWallet } from "./utils.js";
+
+const AMOUNT = 1000n;
+
+interface VaultBenchmarkContext extends BenchmarkContext {
+  wallet: Wallet;
+  accounts: AztecAddress[];
+  vault: TokenContract;
+  depositNonce: Fr;
+  depositAuthWit: AuthWitness;
+}
+
+/**
+ * Authorizes the vault to pull `amount` of the asset out of the depositor's private balance
+ */
+async function createDepositAuthWit(
+  wallet: TestWallet,
+  asset: TokenContract,
+  vault: TokenContract,
+  from: AztecAddress,
+  amount: bigint,
+  nonce: Fr,
+): Promise<AuthWitness> {
+  return wallet.createAuthWit(from, {
+    caller: vault.address,
+    action: asset
+      .withWallet(wallet)
+      .methods.transfer_private_to_public(from, vault.address, amount, nonce),
+  });
+}
+
+export default class VaultContractBenchmark extends Benchmark {
+  /**
+   * Deploys an asset Token and a vault Token over it, and makes a first deposit
+   * so the vault holds assets and shares to withdraw.
+   */
+  async setup(): Promise<VaultBenchmarkContext> {
+    const { wallet, accounts } = await setupBenchmarkWallet();
+    const [alice] = accounts;
+
+    const asset = await deployToken(wallet, alice);
+    const vault = await TokenContract.deployWithOpts(
+      { wallet, method: "constructor_with_asset" },
+      "VaultToken",
+      "VT",
+      18,
+      asset.address,
+      AztecAddress.ZERO,
+    )
+      .send({ from: alice })
+      .deployed();
+
+    await asset.methods
+      .mint_to_private(alice, 2n * AMOUNT)
+      .send({ from: alice })
+      .wait();
+
+    // The first deposit mints shares 1:1
+    const nonce = Fr.random();
+    const authWit = await createDepositAuthWit(
+      wallet,
+      asset,
+      vault,
+      alice,
+      AMOUNT,
+      nonce,
+    );
+    await vault.methods
+      .deposit_private_to_private(alice, alice, AMOUNT, AMOUNT, nonce)
+      .with({ authWitnesses: [authWit] })
+      .send({ from: alice })
+      .wait();
+
+    const depositNonce = Fr.random();
+    const depositAuthWit = await createDepositAuthWit(
+      wallet,
+      asset,
+      vault,
+      alice,
+      AMOUNT / 10n,
+      depositNonce,
+    );
+
+    return { wallet, accounts, vault, depositNonce, depositAuthWit };
+  }
+
+  /**
+   * Returns the list of vault methods to be benchmarked.
+   */
+  getMethods(
+    context: VaultBenchmarkContext,
+  ): ContractFunctionInteractionCallIntent[] {
+    const { wallet, accounts, vault, depositNonce, depositAuthWit } = context;
+    const [alice] = accounts;
+    const methods = vault.withWallet(wallet).methods;
+    // Assets and shares are still 1:1, as no yield was added
+    const amount = AMOUNT / 10n;
+
+    return [
+      {
+        caller: alice,
+        action: methods
+          .deposit_private_to_private(
+            alice,
+            alice,
+            amount,
+            amount,
+            depositNonce,
+          )
+          .with({ authWitnesses: [depositAuthWit] }),
+      },
+      {
+        caller: alice,
+        action: methods.withdraw_private_to_private(
+          alice,
+          alice,
+          amount,
+          amount,
+          0,
+        ),
+      },
+    ];
+  }
+}
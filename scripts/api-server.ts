@@ -0,0 +1,83 @@
+import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { GovernanceClient } from "../src/ts/governance_client.js";
+import { createApiServer } from "../src/ts/api_server.js";
+import {
+  getKeystorePath,
+  loadKeystore,
+  registerKeystoreAccounts,
+} from "../src/ts/keystore.js";
+
+// Hosts only reachable from this machine
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+
+/**
+ * Serves the governance in the covenant keystore over HTTP.
+ * Run `yarn covenant deploy` (or `connect`) first.
+ */
+async function main(): Promise<void> {
+  const {
+    NODE_URL = "http://localhost:8080",
+    API_HOST = "127.0.0.1",
+    API_PORT = "3000",
+    API_TOKEN,
+    API_CORS_ORIGIN,
+  } = process.env;
+
+  if (!LOOPBACK_HOSTS.includes(API_HOST) && !API_TOKEN) {
+    throw new Error(
+      `Set API_TOKEN to serve on ${API_HOST}, anyone reaching it could send txs as the keystore accounts`,
+    );
+  }
+
+  const keystore = loadKeystore(getKeystorePath());
+  const [firstAccount] = Object.values(keystore.accounts);
+  if (!keystore.governance || !firstAccount) {
+    throw new Error(
+      "No governance or account in the keystore, run `yarn covenant deploy` first",
+    );
+  }
+
+  const node = createAztecNodeClient(NODE_URL);
+  await waitForNode(node);
+
+  const wallet = await TestWallet.create(node);
+  await registerKeystoreAccounts(wallet, keystore);
+
+  const governance = await GovernanceClient.connect(
+    { wallet, node, from: AztecAddress.fromString(firstAccount.address) },
+    AztecAddress.fromString(keystore.governance.address),
+    Fr.fromString(keystore.governance.secretKey),
+  );
+
+  const accounts = Object.fromEntries(
+    Object.entries(keystore.accounts).map(([alias, { address }]) => [
+      alias,
+      AztecAddress.fromString(address),
+    ]),
+  );
+
+  const server = createApiServer({
+    governance,
+    node,
+    accounts,
+    token: API_TOKEN,
+    corsOrigin: API_CORS_ORIGIN,
+  });
+  server.listen(Number(API_PORT), API_HOST, () => {
+    console.log(
+      `✅ Governance ${governance.address} served at http://${API_HOST}:${API_PORT}`,
+    );
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { existsSync, readFileSync } from "fs";
+import { parseArgs } from "node:util";
+import {
+  benchmarkName,
+  checkBudget,
+  compareBenchmark,
+  findBenchmarkPairs,
+  formatMarkdown,
+  formatViolation,
+  type BenchmarkBudget,
+  type BenchmarkPair,
+} from "../src/ts/benchmark_compare.js";
+
+const USAGE = `Usage: yarn benchmark:compare [options]
+
+Compares the *_base.benchmark.json results of \`yarn benchmark\` with the
+*.benchmark.json results of a current \`aztec-benchmark\` run.
+
+Options:
+  --dir <path>         Directory of the result files, defaults to benchmarks
+  --base <file>        Compare a single base result file...
+  --current <file>     ...with a single current result file
+  --budget <file>      Budget file, defaults to benchmarks/budget.json if it exists
+  --json               Print JSON instead of a Markdown table
+  -h, --help           Show this help
+
+Exits with 1 when a function grows more than its budget allows.
+`;
+
+const DEFAULT_BUDGET = "benchmarks/budget.json";
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string", default: "benchmarks" },
+      base: { type: "string" },
+      current: { type: "string" },
+      budget: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (Boolean(values.base) !== Boolean(values.current)) {
+    throw new Error("--base and --current must be given together");
+  }
+
+  const pairs: BenchmarkPair[] = values.base
+    ? [
+        {
+          name: benchmarkName(values.base),
+          base: values.base,
+          current: values.current!,
+        },
+      ]
+    : findBenchmarkPairs(values.dir!);
+  if (pairs.length === 0) {
+    throw new Error(
+      `No *_base.benchmark.json in ${values.dir}, run \`yarn benchmark\` first`,
+    );
+  }
+
+  const budgetPath =
+    values.budget ?? (existsSync(DEFAULT_BUDGET) ? DEFAULT_BUDGET : undefined);
+  const budget: BenchmarkBudget = budgetPath
+    ? JSON.parse(readFileSync(budgetPath, "utf8"))
+    : {};
+
+  const comparisons = pairs.flatMap(compareBenchmark);
+  const violations = checkBudget(comparisons, budget);
+
+  if (values.json) {
+    console.log(JSON.stringify({ comparisons, violations }, null, 2));
+  } else {
+    console.log(formatMarkdown(comparisons));
+    if (violations.length > 0) {
+      console.log(`\n❌ Over budget (${budgetPath}):`);
+      violations.forEach((violation) =>
+        console.log(`- ${formatViolation(violation)}`),
+      );
+    } else if (budgetPath) {
+      console.log(`\n✅ Within budget (${budgetPath})`);
+    }
+  }
+
+  if (violations.length > 0) {
+    process.exit(1);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
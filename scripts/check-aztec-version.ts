@@ -15,6 +15,45 @@ interface PackageJson {
   };
 }
 
+/**
+ * The aztec CLI is not installed, or not on the PATH
+ */
+class AztecCliNotFoundError extends Error {
+  constructor(expectedVersion: string) {
+    super(
+      `❌ Aztec CLI not found!\n` +
+        `   Please install aztec-up and run: VERSION=${expectedVersion} aztec-up`,
+    );
+    this.name = "AztecCliNotFoundError";
+  }
+}
+
+/**
+ * Run `aztec --version`
+ * @param expectedVersion - The version to suggest installing if the CLI is missing
+ * @returns The installed Aztec CLI version
+ */
+async function getInstalledAztecVersion(
+  expectedVersion: string,
+): Promise<string> {
+  try {
+    // Check if aztec CLI is installed and get version
+    const { stdout } = await execAsync("aztec --version");
+    return stdout.trim();
+  } catch (error: any) {
+    // `exec` runs a shell, which exits with 127 when the command doesn't exist
+    if (error.code === "ENOENT" || error.code === 127) {
+      throw new AztecCliNotFoundError(expectedVersion);
+    } else if (error.stdout) {
+      // Handle case where command exits with non-zero code (e.g., when sandbox is running)
+      // but version is still available in stdout
+      return error.stdout.trim();
+    } else {
+      throw error;
+    }
+  }
+}
+
 /**
  * Check if the installed Aztec CLI version matches the expected version in package.json
  */
@@ -34,28 +73,8 @@ async function checkAztecVersion(): Promise<void> {
 
   console.log(`📋 Expected Aztec version: ${expectedVersion}`);
 
-  let installedVersion: string;
-
-  try {
-    // Check if aztec CLI is installed and get version
-    const { stdout } = await execAsync("aztec --version");
-    installedVersion = stdout.trim();
-
-    console.log("✅ Aztec CLI version check passed");
-  } catch (error: any) {
-    if (error.code === "ENOENT") {
-      throw new Error(
-        `❌ Aztec CLI not found!\n` +
-          `   Please install aztec-up and run: VERSION=${expectedVersion} aztec-up`,
-      );
-    } else if (error.stdout) {
-      // Handle case where command exits with non-zero code (e.g., when sandbox is running)
-      // but version is still available in stdout
-      installedVersion = error.stdout.trim();
-    } else {
-      throw error;
-    }
-  }
+  const installedVersion = await getInstalledAztecVersion(expectedVersion);
+  console.log("✅ Aztec CLI version check passed");
 
   console.log(`🔧 Installed Aztec version: ${installedVersion}`);
 
@@ -70,4 +89,4 @@ async function checkAztecVersion(): Promise<void> {
   }
 }
 
-export { checkAztecVersion };
+export { AztecCliNotFoundError, checkAztecVersion, getInstalledAztecVersion };
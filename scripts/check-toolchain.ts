@@ -0,0 +1,95 @@
+import { parseArgs } from "node:util";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import {
+  applyFixes,
+  checkToolchain,
+  formatTable,
+  readExpectedVersion,
+} from "../src/ts/toolchain.js";
+import {
+  AztecCliNotFoundError,
+  getInstalledAztecVersion,
+} from "./check-aztec-version.js";
+
+const USAGE = `Usage: yarn check:toolchain [options]
+
+Compares every Aztec version pin of the workspace with package.json
+config.aztecVersion: the aztec CLI, the package version, the @aztec/*
+dependencies and the git tags of every Nargo.toml. Also checks that the
+contracts in target/ were compiled by the toolchain of the installed packages
+and that src/artifacts/ was generated from them.
+
+Options:
+  --fix                Write the expected versions to package.json and Nargo.toml
+  --skip-cli           Don't check the installed aztec CLI
+  --json               Print JSON instead of a Markdown table
+  -h, --help           Show this help
+
+Exits with 1 when something does not match.
+`;
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      fix: { type: "boolean", default: false },
+      "skip-cli": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let installedVersion: string | undefined;
+  if (!values["skip-cli"]) {
+    installedVersion = await getInstalledAztecVersion(
+      readExpectedVersion(root),
+    ).catch((error: unknown) => {
+      // A missing CLI is a mismatch like any other, a failing one is not
+      if (error instanceof AztecCliNotFoundError) {
+        return "not installed";
+      }
+      throw error;
+    });
+  }
+
+  let checks = checkToolchain(root, installedVersion);
+  if (values.fix) {
+    const fixed = applyFixes(root, checks);
+    if (!values.json) {
+      console.log(
+        fixed.length > 0
+          ? `🔧 Fixed ${fixed.join(", ")}\n`
+          : "ℹ️  Nothing to fix automatically\n",
+      );
+    }
+    checks = checkToolchain(root, installedVersion);
+  }
+
+  const mismatches = checks.filter((check) => !check.ok);
+  if (values.json) {
+    console.log(JSON.stringify(checks, null, 2));
+  } else {
+    console.log(formatTable(checks));
+    console.log(
+      mismatches.length > 0
+        ? `\n❌ ${mismatches.length} mismatch(es)${values.fix ? "" : ", run with --fix to write the fixable ones"}`
+        : "\n✅ Toolchain is consistent",
+    );
+  }
+
+  if (mismatches.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
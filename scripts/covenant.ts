@@ -0,0 +1,412 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fq, Fr } from "@aztec/aztec.js/fields";
+import { getInitialTestAccountsData } from "@aztec/accounts/testing";
+import { TestWallet } from "@aztec/test-wallet/server";
+import {
+  DEFAULT_GOVERNANCE_CONFIG,
+  getProposalStatus,
+  GovernanceClient,
+  parseVoteChoice,
+  type GovernanceConfig,
+  type Proposal,
+  type ProposalAction,
+  type Quorum,
+} from "../src/ts/governance_client.js";
+import {
+  getKeystorePath,
+  loadKeystore,
+  registerKeystoreAccounts,
+  resolveAddress,
+  saveKeystore,
+} from "../src/ts/keystore.js";
+import {
+  parseAssetRegistry,
+  readTreasuryReport,
+  reportToCsv,
+  reportToJson,
+} from "../src/ts/treasury.js";
+
+const USAGE = `Usage: yarn covenant <command> [options]
+
+Commands:
+  accounts list                                  List the accounts in the keystore
+  accounts import-sandbox                        Import the sandbox test accounts
+  accounts add <alias> <secret> <salt> <signingKey>
+                                                 Import an already deployed Schnorr account
+  deploy [--admin <account>] [--quorum <n|n%>] [--approval <n%>] [--voting-period <blocks>]
+                                                 Deploy a new Governance instance, every member
+                                                 has to vote for a proposal within 100 blocks
+                                                 by default
+  config                                         Show the quorum, approval threshold and voting period
+  connect <address> <secretKey>                  Use an existing Governance instance
+  members list|add <account>|remove <account>    Manage members
+  proposal create <token> <amount> <recipient>   Propose a treasury transfer
+  proposal create-nft <nft> <tokenId> <recipient>
+                                                 Propose a treasury NFT transfer
+  proposal show <id>|list                        Show proposals
+  proposal close <id>                            Compute the outcome once voting has ended
+  vote <id> for|against                          Vote on a proposal
+  withdraw <id>                                  Execute a finalized proposal
+  withdraw-nft <id>                              Execute a finalized NFT proposal
+  treasury <token>...                            Show the treasury token balances
+  treasury-report <registry>                     Report the treasury holdings of the tokens and NFTs
+                                                 of a JSON registry, as CSV or as JSON with --json
+
+Options:
+  --from <account>     Account to act as, defaults to the first keystore account
+  --keystore <path>    Keystore file, defaults to $COVENANT_KEYSTORE or .covenant/keystore.json
+  --json               Print JSON instead of human-readable output
+  -h, --help           Show this help
+
+Accounts can be given as keystore aliases or addresses. The node is read from NODE_URL.
+`;
+
+/**
+ * Parse "3" as an absolute quorum and "60%" as a percentage of the members
+ */
+function parseQuorum(value: string): Quorum {
+  return value.endsWith("%")
+    ? { kind: "percentage", percentage: Number(value.slice(0, -1)) }
+    : { kind: "absolute", votes: Number(value) };
+}
+
+const formatQuorum = (quorum: Quorum) =>
+  quorum.kind === "absolute"
+    ? `${quorum.votes} votes`
+    : `${quorum.percentage}% of members`;
+
+function print(json: boolean, data: unknown, human: string): void {
+  if (json) {
+    console.log(
+      JSON.stringify(
+        data,
+        (_, value) => (typeof value === "bigint" ? value.toString() : value),
+        2,
+      ),
+    );
+  } else {
+    console.log(human);
+  }
+}
+
+const formatAction = (action: ProposalAction) =>
+  action.kind === "nft"
+    ? `NFT #${action.tokenId} of ${action.nft} to ${action.recipient}`
+    : `${action.amount} of ${action.token} to ${action.recipient}`;
+
+const formatProposal = (proposal: Proposal, blockNumber: number) => {
+  const status = getProposalStatus(proposal, blockNumber);
+  return (
+    `#${proposal.id} [${status}]: ${formatAction(proposal.action)}, ` +
+    `${proposal.votesFor} for, ${proposal.votesAgainst} against, ` +
+    `voting blocks ${proposal.startBlock}-${proposal.endBlock}`
+  );
+};
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      admin: { type: "string" },
+      quorum: { type: "string" },
+      approval: { type: "string" },
+      "voting-period": { type: "string" },
+      from: { type: "string" },
+      keystore: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const json = values.json!;
+  const keystorePath = getKeystorePath(values.keystore);
+  const keystore = loadKeystore(keystorePath);
+
+  // Keystore-only commands don't need a node
+  if (command === "accounts" && args[0] === "list") {
+    const accounts = Object.entries(keystore.accounts).map(
+      ([alias, { address }]) => ({ alias, address }),
+    );
+    print(
+      json,
+      accounts,
+      accounts.map(({ alias, address }) => `${alias}\t${address}`).join("\n"),
+    );
+    return;
+  }
+
+  const { NODE_URL = "http://localhost:8080" } = process.env;
+  const node = createAztecNodeClient(NODE_URL);
+  await waitForNode(node);
+
+  const wallet = await TestWallet.create(node);
+  await registerKeystoreAccounts(wallet, keystore);
+
+  if (command === "accounts") {
+    const [subcommand, alias, secret, salt, signingKey] = args;
+    if (subcommand === "import-sandbox") {
+      const accounts = await getInitialTestAccountsData();
+      accounts.forEach((account, i) => {
+        keystore.accounts[`test${i}`] = {
+          address: account.address.toString(),
+          secret: account.secret.toString(),
+          salt: account.salt.toString(),
+          signingKey: account.signingKey.toString(),
+        };
+      });
+      saveKeystore(keystorePath, keystore);
+      print(
+        json,
+        accounts.map((account) => account.address),
+        `Imported ${accounts.length} sandbox accounts`,
+      );
+    } else if (subcommand === "add" && signingKey) {
+      const manager = await wallet.createSchnorrAccount(
+        Fr.fromString(secret),
+        Fr.fromString(salt),
+        Fq.fromString(signingKey),
+      );
+      keystore.accounts[alias] = {
+        address: manager.address.toString(),
+        secret,
+        salt,
+        signingKey,
+      };
+      saveKeystore(keystorePath, keystore);
+      print(json, manager.address, `Imported ${alias} as ${manager.address}`);
+    } else {
+      throw new Error(USAGE);
+    }
+    return;
+  }
+
+  const [firstAccount] = Object.keys(keystore.accounts);
+  if (!values.from && !firstAccount) {
+    throw new Error(
+      "No accounts in the keystore, run `accounts import-sandbox` or `accounts add` first",
+    );
+  }
+  const from = resolveAddress(keystore, values.from ?? firstAccount);
+  const context = { wallet, node, from };
+
+  if (command === "deploy") {
+    const admin = values.admin ? resolveAddress(keystore, values.admin) : from;
+    const config: GovernanceConfig = {
+      quorum: values.quorum
+        ? parseQuorum(values.quorum)
+        : DEFAULT_GOVERNANCE_CONFIG.quorum,
+      approvalThreshold: values.approval
+        ? Number(values.approval.replace(/%$/, ""))
+        : DEFAULT_GOVERNANCE_CONFIG.approvalThreshold,
+      votingPeriod: values["voting-period"]
+        ? Number(values["voting-period"])
+        : DEFAULT_GOVERNANCE_CONFIG.votingPeriod,
+    };
+    const gov = await GovernanceClient.deploy(context, { admin, config });
+    keystore.governance = {
+      address: gov.address.toString(),
+      secretKey: gov.secretKey.toString(),
+    };
+    saveKeystore(keystorePath, keystore);
+    print(
+      json,
+      { address: gov.address, admin, config },
+      `Governance deployed at ${gov.address}`,
+    );
+    return;
+  }
+
+  if (command === "connect") {
+    const [address, secretKey] = args;
+    const gov = await GovernanceClient.connect(
+      context,
+      AztecAddress.fromString(address),
+      Fr.fromString(secretKey),
+    );
+    keystore.governance = {
+      address: gov.address.toString(),
+      secretKey: gov.secretKey.toString(),
+    };
+    saveKeystore(keystorePath, keystore);
+    print(json, { address: gov.address }, `Connected to ${gov.address}`);
+    return;
+  }
+
+  if (!keystore.governance) {
+    throw new Error("No governance in the keystore, run `deploy` first");
+  }
+  const gov = await GovernanceClient.connect(
+    context,
+    AztecAddress.fromString(keystore.governance.address),
+    Fr.fromString(keystore.governance.secretKey),
+  );
+
+  switch (command) {
+    case "config": {
+      const config = await gov.getConfig();
+      print(
+        json,
+        config,
+        `Quorum: ${formatQuorum(config.quorum)}\nApproval threshold: ${config.approvalThreshold}%\n` +
+          `Voting period: ${config.votingPeriod} blocks`,
+      );
+      break;
+    }
+    case "members": {
+      const [subcommand, member] = args;
+      if (subcommand === "add" || subcommand === "remove") {
+        const address = resolveAddress(keystore, member);
+        const receipt =
+          subcommand === "add"
+            ? await gov.addMember(address)
+            : await gov.removeMember(address);
+        print(
+          json,
+          { txHash: receipt.txHash, member: address },
+          `${subcommand === "add" ? "Added" : "Removed"} ${address} (tx ${receipt.txHash})`,
+        );
+      } else if (subcommand === "list") {
+        const members = await gov.getMembers();
+        print(json, members, members.map((m) => m.toString()).join("\n"));
+      } else {
+        throw new Error(USAGE);
+      }
+      break;
+    }
+    case "proposal": {
+      const [subcommand, id] = args;
+      if (subcommand === "create" || subcommand === "create-nft") {
+        const [, asset, value, recipient] = args;
+        const { proposalId, receipt } = await gov.createProposal(
+          subcommand === "create"
+            ? {
+                token: AztecAddress.fromString(asset),
+                amount: BigInt(value),
+                recipient: resolveAddress(keystore, recipient),
+              }
+            : {
+                kind: "nft",
+                nft: AztecAddress.fromString(asset),
+                tokenId: BigInt(value),
+                recipient: resolveAddress(keystore, recipient),
+              },
+        );
+        print(
+          json,
+          { txHash: receipt.txHash, proposalId },
+          `Created proposal #${proposalId} (tx ${receipt.txHash})`,
+        );
+      } else if (subcommand === "show") {
+        const proposal = await gov.getProposal(BigInt(id));
+        const blockNumber = await node.getBlockNumber();
+        print(json, proposal, formatProposal(proposal, blockNumber));
+      } else if (subcommand === "list") {
+        const count = await gov.getCurrentId();
+        const proposals: Proposal[] = [];
+        for (let i = 0n; i < count; i++) {
+          proposals.push(await gov.getProposal(i));
+        }
+        const blockNumber = await node.getBlockNumber();
+        print(
+          json,
+          proposals,
+          proposals.map((p) => formatProposal(p, blockNumber)).join("\n"),
+        );
+      } else if (subcommand === "close") {
+        const receipt = await gov.closeProposal(BigInt(id));
+        const proposal = await gov.getProposal(BigInt(id));
+        print(
+          json,
+          {
+            txHash: receipt.txHash,
+            proposalId: BigInt(id),
+            passed: proposal.final,
+          },
+          `Closed proposal #${id}, ${proposal.final ? "passed" : "rejected"} (tx ${receipt.txHash})`,
+        );
+      } else {
+        throw new Error(USAGE);
+      }
+      break;
+    }
+    case "vote": {
+      const [id, choice] = args;
+      const receipt = await gov.castVote(BigInt(id), parseVoteChoice(choice));
+      print(
+        json,
+        { txHash: receipt.txHash, proposalId: BigInt(id) },
+        `Voted ${choice} on proposal #${id} (tx ${receipt.txHash})`,
+      );
+      break;
+    }
+    case "withdraw": {
+      const [id] = args;
+      const receipt = await gov.withdraw(BigInt(id));
+      print(
+        json,
+        { txHash: receipt.txHash, proposalId: BigInt(id) },
+        `Executed proposal #${id} (tx ${receipt.txHash})`,
+      );
+      break;
+    }
+    case "withdraw-nft": {
+      const [id] = args;
+      const receipt = await gov.withdrawNft(BigInt(id));
+      print(
+        json,
+        { txHash: receipt.txHash, proposalId: BigInt(id) },
+        `Executed NFT proposal #${id} (tx ${receipt.txHash})`,
+      );
+      break;
+    }
+    case "treasury": {
+      const balances = [];
+      for (const token of args) {
+        balances.push(
+          await gov.getTreasuryBalance(AztecAddress.fromString(token)),
+        );
+      }
+      print(
+        json,
+        balances,
+        balances
+          .map((b) => `${b.token}\tprivate ${b.private}\tpublic ${b.public}`)
+          .join("\n"),
+      );
+      break;
+    }
+    case "treasury-report": {
+      const [registryPath] = args;
+      if (!registryPath) {
+        throw new Error(USAGE);
+      }
+      const report = await readTreasuryReport(
+        context,
+        gov.address,
+        parseAssetRegistry(readFileSync(registryPath, "utf8")),
+      );
+      process.stdout.write(
+        json ? `${reportToJson(report)}\n` : reportToCsv(report),
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
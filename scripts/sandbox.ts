@@ -0,0 +1,192 @@
+import { spawn } from "child_process";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { parseArgs } from "node:util";
+import { createAztecNodeClient } from "@aztec/aztec.js/node";
+import {
+  registerInitialSandboxAccountsInWallet,
+  TestWallet,
+} from "@aztec/test-wallet/server";
+import { deployCovenantFixture, writeFixture } from "../src/ts/fixtures.js";
+import { checkAztecVersion } from "./check-aztec-version.js";
+import {
+  getSandboxDataPath,
+  isProcessAlive,
+  readSandboxState,
+  SandboxManager,
+  stopSandboxDaemon,
+} from "./start-sandbox.js";
+
+const USAGE = `Usage: yarn sandbox <command> [options]
+
+Commands:
+  start        Start a sandbox in the background, reused by \`yarn test\` and \`yarn benchmark\`
+  stop         Stop the background sandbox
+  status       Show the pid, ports and version of the background sandbox
+  logs         Print the sandbox output
+  snapshot [name]
+               Start a sandbox, deploy the covenant fixture and save a snapshot of it
+               for \`SANDBOX_SNAPSHOT=<name> yarn test:js\`, "covenant" by default
+
+Options:
+  --port <port>        Node port, defaults to 8080
+  --l1-port <port>     L1 (Anvil) port, defaults to 8545
+  --admin-port <port>  Node admin port, defaults to 8880
+  --host <host>        Host the node is reached at, defaults to localhost
+  -f, --follow         Keep printing the logs as they come
+  --json               Print JSON instead of human-readable output
+  -h, --help           Show this help
+
+Arguments after -- are passed to \`aztec start --sandbox\`. State and logs are kept
+in .sandbox/ (or $SANDBOX_STATE_DIR).
+`;
+
+async function isResponsive(nodeUrl: string): Promise<boolean> {
+  try {
+    await createAztecNodeClient(nodeUrl).getNodeInfo();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function main(): Promise<void> {
+  // Everything after `--` goes to the aztec CLI
+  const argv = process.argv.slice(2);
+  const separator = argv.indexOf("--");
+  const extraArgs = separator === -1 ? [] : argv.slice(separator + 1);
+
+  const { values, positionals } = parseArgs({
+    args: separator === -1 ? argv : argv.slice(0, separator),
+    allowPositionals: true,
+    options: {
+      port: { type: "string" },
+      "l1-port": { type: "string" },
+      "admin-port": { type: "string" },
+      host: { type: "string" },
+      follow: { type: "boolean", short: "f", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = values.port ? Number(values.port) : undefined;
+  const state = readSandboxState(port);
+  const options = {
+    host: values.host,
+    port,
+    l1Port: values["l1-port"] ? Number(values["l1-port"]) : undefined,
+    adminPort: values["admin-port"] ? Number(values["admin-port"]) : undefined,
+    args: extraArgs,
+  };
+
+  switch (command) {
+    case "start": {
+      await checkAztecVersion();
+      const manager = new SandboxManager(options);
+      const started = await manager.startDaemon();
+      console.log(
+        `✅ Sandbox ${started.version} running at ${manager.nodeUrl} (pid ${started.pid}), logs in ${started.logFile}`,
+      );
+      return;
+    }
+
+    case "stop": {
+      const stopped = await stopSandboxDaemon(port);
+      console.log(
+        stopped
+          ? `🛑 Stopped sandbox (pid ${stopped.pid})`
+          : "ℹ️  No sandbox started with `yarn sandbox start`",
+      );
+      return;
+    }
+
+    case "status": {
+      if (!state) {
+        console.log(
+          values.json
+            ? JSON.stringify({ running: false })
+            : "ℹ️  No sandbox started with `yarn sandbox start`",
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const running = isProcessAlive(state.pid);
+      const responsive =
+        running && (await isResponsive(`http://${state.host}:${state.port}`));
+      if (values.json) {
+        console.log(JSON.stringify({ ...state, running, responsive }, null, 2));
+      } else {
+        console.log(
+          [
+            `${responsive ? "✅ Ready" : running ? "⏳ Starting" : "❌ Not running"} (pid ${state.pid})`,
+            `Node:    http://${state.host}:${state.port}`,
+            `L1:      http://127.0.0.1:${state.l1Port}`,
+            `Admin:   ${state.adminPort}`,
+            `Version: ${state.version ?? "unknown"}`,
+            `Started: ${state.startedAt}`,
+            `Logs:    ${state.logFile}`,
+          ].join("\n"),
+        );
+      }
+      if (!running) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    case "logs": {
+      if (!state || !existsSync(state.logFile)) {
+        throw new Error("No sandbox logs, run `yarn sandbox start` first");
+      }
+      if (values.follow) {
+        spawn("tail", ["-f", state.logFile], { stdio: "inherit" });
+      } else {
+        process.stdout.write(readFileSync(state.logFile, "utf8"));
+      }
+      return;
+    }
+
+    case "snapshot": {
+      const name = positionals[1] ?? "covenant";
+      await checkAztecVersion();
+      const manager = new SandboxManager(options);
+      manager.dataDirectory = getSandboxDataPath(manager.port);
+      try {
+        await manager.start();
+        const node = createAztecNodeClient(manager.nodeUrl);
+        const wallet = await TestWallet.create(node);
+        const accounts = await registerInitialSandboxAccountsInWallet(wallet);
+        const fixture = await deployCovenantFixture(
+          { wallet, node, accounts },
+          name,
+        );
+
+        const path = await manager.saveSnapshot(name);
+        writeFixture(path, fixture);
+        console.log(
+          values.json
+            ? JSON.stringify(fixture, null, 2)
+            : `✅ Saved snapshot "${name}" in ${path}`,
+        );
+      } finally {
+        await manager.stop();
+        rmSync(manager.dataDirectory!, { recursive: true, force: true });
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
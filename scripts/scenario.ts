@@ -0,0 +1,70 @@
+import { createAztecNodeClient, waitForNode } from "@aztec/aztec.js/node";
+import {
+  registerInitialSandboxAccountsInWallet,
+  TestWallet,
+} from "@aztec/test-wallet/server";
+import {
+  loadScenario,
+  runScenario,
+  type StepResult,
+} from "../src/ts/scenario.js";
+
+const STATUS_ICONS: Record<StepResult["status"], string> = {
+  passed: "✅",
+  failed: "❌",
+  skipped: "⏭️ ",
+};
+
+/**
+ * Runs governance scenario files against the sandbox and prints every step.
+ * Usage: yarn scenario <file>...
+ */
+async function main(): Promise<void> {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    throw new Error("Usage: yarn scenario <file>...");
+  }
+
+  const { NODE_URL = "http://localhost:8080" } = process.env;
+  const node = createAztecNodeClient(NODE_URL);
+  await waitForNode(node);
+
+  const wallet = await TestWallet.create(node);
+  const accounts = await registerInitialSandboxAccountsInWallet(wallet);
+
+  let failures = 0;
+  for (const file of files) {
+    const scenario = await loadScenario(file);
+    console.log(`\n${scenario.name} (${file})`);
+    if (scenario.description) {
+      console.log(`  ${scenario.description}`);
+    }
+
+    const report = await runScenario(scenario, {
+      wallet,
+      node,
+      accounts,
+      onStep: (step) => {
+        console.log(
+          `  ${STATUS_ICONS[step.status]} ${step.index + 1}. ${step.description}`,
+        );
+        if (step.error) {
+          console.log(`       ${step.error}`);
+        }
+      },
+    });
+    if (!report.passed) {
+      failures++;
+    }
+  }
+
+  console.log(`\n${files.length - failures}/${files.length} scenarios passed`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
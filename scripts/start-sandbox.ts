@@ -1,13 +1,153 @@
 import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
+import {
+  closeSync,
+  cpSync,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+  type WriteStream,
+} from "fs";
+import { dirname, join } from "path";
 import { createAztecNodeClient } from "@aztec/aztec.js/node";
 
-// Global reference for the active sandbox manager
-let activeSandboxManager: SandboxManager | null = null;
+// Global references for the active sandbox managers, there can be several running at once
+const activeSandboxManagers = new Set<SandboxManager>();
 let signalHandlersSetup = false;
 
+const DEFAULT_HOST = "localhost";
+const DEFAULT_PORT = 8080;
+const DEFAULT_L1_PORT = 8545;
+const DEFAULT_ADMIN_PORT = 8880;
+
+// Where `yarn sandbox start` records the sandboxes it runs detached
+const SANDBOX_STATE_DIR = process.env.SANDBOX_STATE_DIR ?? ".sandbox";
+
+/**
+ * A sandbox running detached from the process that started it
+ * @param pid - The sandbox process, leader of its process group
+ * @param version - The node version, once it answered
+ * @param logFile - The file its stdout and stderr are written to
+ */
+interface SandboxState {
+  pid: number;
+  host: string;
+  port: number;
+  l1Port: number;
+  adminPort: number;
+  version?: string;
+  logFile: string;
+  startedAt: string;
+}
+
+const getSandboxStatePath = (port: number) =>
+  join(SANDBOX_STATE_DIR, `sandbox-${port}.json`);
+
+const getSandboxLogPath = (port: number) =>
+  join(SANDBOX_STATE_DIR, `sandbox-${port}.log`);
+
+const getSandboxDataPath = (port: number) =>
+  join(SANDBOX_STATE_DIR, `data-${port}`);
+
+// A snapshot is a copy of the node data directory and a dump of the L1 (Anvil) state
+const SNAPSHOT_NODE_DIR = "node";
+const SNAPSHOT_L1_STATE_FILE = "l1-state.hex";
+
+const getSnapshotPath = (name: string) =>
+  join(SANDBOX_STATE_DIR, "snapshots", name);
+
+/**
+ * Check whether a snapshot was saved under this name
+ */
+function hasSnapshot(name: string): boolean {
+  return existsSync(join(getSnapshotPath(name), SNAPSHOT_L1_STATE_FILE));
+}
+
+/**
+ * Send a JSON-RPC request to an L1 node
+ * @returns The result of the request
+ */
+async function l1Request(
+  url: string,
+  method: string,
+  params: unknown[] = [],
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(`${method} failed: ${body.error.message}`);
+  }
+  return body.result;
+}
+
+/**
+ * Read the state of the detached sandbox on a port
+ * @returns The state, undefined if no sandbox was started on this port
+ */
+function readSandboxState(
+  port: number = DEFAULT_PORT,
+): SandboxState | undefined {
+  const path = getSandboxStatePath(port);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as SandboxState;
+}
+
+function writeSandboxState(state: SandboxState): void {
+  mkdirSync(SANDBOX_STATE_DIR, { recursive: true });
+  writeFileSync(
+    getSandboxStatePath(state.port),
+    JSON.stringify(state, null, 2),
+  );
+}
+
+function removeSandboxState(port: number): void {
+  rmSync(getSandboxStatePath(port), { force: true });
+}
+
+/**
+ * Check whether a process is still running, without signalling it
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means it runs, as another user
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * @param verbose - optional - Log the sandbox output, enabled in CI by default
+ * @param host - optional - The host the node is reached at, localhost by default
+ * @param port - optional - The node port, 8080 by default
+ * @param l1Port - optional - The port of the L1 (Anvil) node the sandbox starts, 8545 by default
+ * @param adminPort - optional - The node admin port, 8880 by default
+ * @param args - optional - Extra arguments passed to `aztec start --sandbox`
+ * @param dataDirectory - optional - Keep the node data here and run Anvil ourselves, which snapshots need
+ * @param snapshot - optional - Start from this snapshot instead of an empty chain, with a data directory in .sandbox/ if none is given
+ * @param logDirectory - optional - Write the full sandbox output to `sandbox-<port>.log` in this directory, every line timestamped
+ */
 interface SandboxManagerOptions {
   verbose?: boolean;
+  host?: string;
+  port?: number;
+  l1Port?: number;
+  adminPort?: number;
+  args?: string[];
+  dataDirectory?: string;
+  snapshot?: string;
+  logDirectory?: string;
 }
 
 interface ManagedTimer {
@@ -23,15 +163,15 @@ function setupSignalHandlers(): void {
   if (signalHandlersSetup) return;
 
   const handleShutdown = async (signal: string): Promise<void> => {
-    // Stop the active sandbox manager if it exists
-    if (activeSandboxManager) {
+    // Stop the active sandbox managers if there are any
+    for (const manager of [...activeSandboxManagers]) {
       try {
-        await activeSandboxManager.stop();
-        console.log("✅ Sandbox manager stopped");
+        await manager.stop();
+        console.log(`✅ Sandbox manager on port ${manager.port} stopped`);
       } catch (err) {
         console.error("Error stopping manager:", err);
       }
-      activeSandboxManager = null;
+      activeSandboxManagers.delete(manager);
     }
 
     process.exit(0);
@@ -50,10 +190,22 @@ class SandboxManager extends EventEmitter {
   public process: ChildProcess | null = null;
   public isReady = false;
   public isExternalSandbox = false; // Track if we're using external sandbox vs our own process
+  public isDaemonSandbox = false; // Track if we're reusing a sandbox started with `yarn sandbox start`
   public sandboxTimeout = 180000;
   public forceKillTimeout = 5000;
   public maxRetries = 3;
   public verbose: boolean;
+  public host: string;
+  public port: number;
+  public l1Port: number;
+  public adminPort: number;
+  public args: string[];
+  public dataDirectory?: string;
+  public snapshot?: string;
+  public logFile?: string; // The full sandbox output, the daemon log when reusing `yarn sandbox start`
+
+  // The L1 node we run when using a data directory
+  private l1Process: ChildProcess | null = null;
 
   // Timer/interval tracking for centralized cleanup
   private timers: Record<string, NodeJS.Timeout> = {};
@@ -61,16 +213,57 @@ class SandboxManager extends EventEmitter {
   // Capture stderr for error reporting
   private stderrBuffer: string[] = [];
 
+  private logStream: WriteStream | null = null;
+
   constructor(options: SandboxManagerOptions = {}) {
     super();
     // Enable verbose mode in CI environments by default
     this.verbose = options.verbose ?? Boolean(process.env.CI);
+    this.host = options.host ?? DEFAULT_HOST;
+    this.port = options.port ?? DEFAULT_PORT;
+    this.l1Port = options.l1Port ?? DEFAULT_L1_PORT;
+    this.adminPort = options.adminPort ?? DEFAULT_ADMIN_PORT;
+    this.args = options.args ?? [];
+    this.snapshot = options.snapshot;
+    this.dataDirectory =
+      options.dataDirectory ??
+      (options.snapshot ? getSandboxDataPath(this.port) : undefined);
+    this.logFile =
+      options.logDirectory &&
+      join(options.logDirectory, `sandbox-${this.port}.log`);
 
     // Register this manager for signal handling
-    activeSandboxManager = this;
+    activeSandboxManagers.add(this);
     setupSignalHandlers();
   }
 
+  /**
+   * The URL the node of this sandbox is reached at
+   */
+  get nodeUrl(): string {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  /**
+   * The URL of the L1 node, `L1_RPC_URL` if set for the default sandbox
+   */
+  get l1RpcUrl(): string {
+    if (process.env.L1_RPC_URL && this.l1Port === DEFAULT_L1_PORT) {
+      return process.env.L1_RPC_URL;
+    }
+    return `http://127.0.0.1:${this.l1Port}`;
+  }
+
+  /**
+   * Where the node keeps its data, inside the data directory
+   */
+  get nodeDataDirectory(): string {
+    if (!this.dataDirectory) {
+      throw new Error("The sandbox has no data directory");
+    }
+    return join(this.dataDirectory, SNAPSHOT_NODE_DIR);
+  }
+
   /**
    * Create a managed timer that will be automatically cleaned up
    */
@@ -127,14 +320,17 @@ class SandboxManager extends EventEmitter {
     this.process = null;
     this.isReady = false;
     this.stderrBuffer = [];
+    this.logStream?.end();
+    this.logStream = null;
 
-    // Only reset external flag if not preserving it
+    // Only reset external flags if not preserving them
     if (!preserveExternalFlag) {
       this.isExternalSandbox = false;
+      this.isDaemonSandbox = false;
     }
 
     // Clear global reference
-    activeSandboxManager = null;
+    activeSandboxManagers.delete(this);
   }
 
   /**
@@ -146,6 +342,7 @@ class SandboxManager extends EventEmitter {
     safeReject: (error: Error) => void,
   ): void {
     // Always reset state on error
+    this.killL1Node();
     this.resetState();
 
     // Create standardized error message
@@ -163,15 +360,32 @@ class SandboxManager extends EventEmitter {
 
   /**
    * Spawn the Aztec sandbox process
+   * @param logFd - optional - Run it detached, writing its output to this file descriptor
    */
-  spawnSandboxProcess(): ChildProcess {
+  spawnSandboxProcess(logFd?: number): ChildProcess {
+    const env = { ...process.env, ANVIL_PORT: String(this.l1Port) };
     // In devnet.2, an L1 RPC URL is required
-    // The sandbox will start its own Anvil instance on the default port
-    const l1RpcUrl = process.env.L1_RPC_URL || "http://127.0.0.1:8545";
-
-    return spawn("aztec", ["start", "--sandbox", "--l1-rpc-urls", l1RpcUrl], {
-      stdio: "pipe",
-    });
+    // The sandbox starts its own Anvil instance on ANVIL_PORT, unless `startL1Node` runs one there
+    return spawn(
+      "aztec",
+      [
+        "start",
+        "--sandbox",
+        "--port",
+        String(this.port),
+        "--admin-port",
+        String(this.adminPort),
+        "--l1-rpc-urls",
+        this.l1RpcUrl,
+        ...(this.dataDirectory
+          ? ["--data-directory", this.nodeDataDirectory]
+          : []),
+        ...this.args,
+      ],
+      logFd === undefined
+        ? { stdio: "pipe", env }
+        : { stdio: ["ignore", logFd, logFd], env, detached: true },
+    );
   }
 
   /**
@@ -200,10 +414,11 @@ class SandboxManager extends EventEmitter {
     });
 
     // Monitor stdout for informational messages
-    if (this.verbose && process.stdout) {
+    if (process.stdout) {
       process.stdout.on("data", (data: Buffer) => {
         const output = data.toString().trim();
-        if (output) {
+        this.writeLog("stdout", output);
+        if (this.verbose && output) {
           console.log(`📡 Sandbox: ${output}`);
         }
       });
@@ -213,6 +428,7 @@ class SandboxManager extends EventEmitter {
     if (process.stderr) {
       process.stderr.on("data", (data: Buffer) => {
         const output = data.toString().trim();
+        this.writeLog("stderr", output);
         if (output) {
           // Always capture stderr for error reporting
           this.stderrBuffer.push(output);
@@ -243,7 +459,7 @@ class SandboxManager extends EventEmitter {
               })
               .catch(() => {
                 this.handleError(
-                  "Port 8080 is in use but sandbox is not responsive",
+                  `Port ${this.port} is in use but sandbox is not responsive`,
                   "external-sandbox-check",
                   safeReject,
                 );
@@ -261,16 +477,19 @@ class SandboxManager extends EventEmitter {
           this.stderrBuffer.length > 0
             ? `\n\nStderr output:\n${this.stderrBuffer.slice(-10).join("\n")}`
             : "";
+        const fullOutput = this.logFile
+          ? `\n\nFull output in ${this.logFile}`
+          : "";
 
         if (code === 0) {
           this.handleError(
-            `Sandbox process exited unexpectedly${stderrOutput}`,
+            `Sandbox process exited unexpectedly${stderrOutput}${fullOutput}`,
             "process-exit",
             safeReject,
           );
         } else {
           this.handleError(
-            `Sandbox process exited with code ${code} and signal ${signal}${stderrOutput}`,
+            `Sandbox process exited with code ${code} and signal ${signal}${stderrOutput}${fullOutput}`,
             "process-exit",
             safeReject,
           );
@@ -279,7 +498,25 @@ class SandboxManager extends EventEmitter {
     });
   }
 
-  async checkSandboxConnectivity(): Promise<void> {
+  /**
+   * Append sandbox output to the log file, one timestamped line per output line
+   * e.g. `2025-01-01T00:00:00.000Z stderr [12:00:00.000] ERROR: ...`
+   */
+  writeLog(stream: "stdout" | "stderr", output: string): void {
+    if (!this.logStream || !output) {
+      return;
+    }
+    const timestamp = new Date().toISOString();
+    for (const line of output.split("\n")) {
+      this.logStream.write(`${timestamp} ${stream} ${line}\n`);
+    }
+  }
+
+  /**
+   * Wait for the node to answer
+   * @returns The node version
+   */
+  async checkSandboxConnectivity(): Promise<string> {
     console.time(`✅ Sandbox ready`);
 
     const maxRetries = 60; // 60 retries
@@ -289,17 +526,14 @@ class SandboxManager extends EventEmitter {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         // Try to connect to the Aztec node
-        const aztecNode = await createAztecNodeClient(
-          "http://localhost:8080",
-          {},
-        );
+        const aztecNode = await createAztecNodeClient(this.nodeUrl, {});
 
         // Try to get node info to verify it's responsive
         const nodeInfo = await aztecNode.getNodeInfo();
 
         console.timeEnd(`✅ Sandbox ready`);
         console.log(`🔧 Node version: ${nodeInfo.nodeVersion}`);
-        return; // Success!
+        return nodeInfo.nodeVersion; // Success!
       } catch (error: any) {
         lastError = error;
 
@@ -325,9 +559,37 @@ class SandboxManager extends EventEmitter {
     if (this.isReady || this.process) {
       throw new Error("Cannot start sandbox - already running or starting");
     }
+    activeSandboxManagers.add(this);
+
+    // Reuse the sandbox `yarn sandbox start` runs on this port, if it still does.
+    // Snapshots need a sandbox of our own.
+    const daemon = this.dataDirectory ? undefined : readSandboxState(this.port);
+    if (daemon) {
+      if (isProcessAlive(daemon.pid)) {
+        console.log(
+          `♻️  Reusing sandbox started with \`yarn sandbox start\` (pid ${daemon.pid})`,
+        );
+        await this.checkSandboxConnectivity();
+        this.isDaemonSandbox = true;
+        this.logFile = daemon.logFile;
+        this.isReady = true;
+        return this;
+      }
+      removeSandboxState(this.port);
+    }
+
+    if (this.dataDirectory && !this.l1Process) {
+      if (this.snapshot) {
+        await this.restoreSnapshot(this.snapshot);
+        return this;
+      }
+      // An empty chain needs an empty node
+      rmSync(this.nodeDataDirectory, { recursive: true, force: true });
+      await this.startL1Node();
+    }
 
     return new Promise((resolve, reject) => {
-      console.log("🚀 Starting Aztec sandbox");
+      console.log(`🚀 Starting Aztec sandbox at ${this.nodeUrl}`);
       let resolved = false; // Prevent double resolution
 
       const safeResolve = (value: SandboxManager): void => {
@@ -377,6 +639,10 @@ class SandboxManager extends EventEmitter {
 
       // Spawn and setup process
       try {
+        if (this.logFile) {
+          mkdirSync(dirname(this.logFile), { recursive: true });
+          this.logStream = createWriteStream(this.logFile, { flags: "a" });
+        }
         this.process = this.spawnSandboxProcess();
         this.setupProcessHandlers(this.process, safeResolve, safeReject);
       } catch (error: any) {
@@ -390,6 +656,14 @@ class SandboxManager extends EventEmitter {
   }
 
   async stop(): Promise<void> {
+    await this.stopNode();
+    await this.stopL1Node();
+  }
+
+  /**
+   * Stop the sandbox process, leaving the L1 node we run, if any
+   */
+  async stopNode(): Promise<void> {
     // If already stopped, or never got to start just return
     if (!this.isReady && !this.process) {
       return;
@@ -402,6 +676,13 @@ class SandboxManager extends EventEmitter {
       return;
     }
 
+    // Leave the detached sandbox running for the next run, `yarn sandbox stop` stops it
+    if (this.isDaemonSandbox) {
+      console.log("🔌 Disconnecting from sandbox, it keeps running");
+      this.resetState();
+      return;
+    }
+
     if (!this.process) {
       this.resetState();
       return;
@@ -433,11 +714,191 @@ class SandboxManager extends EventEmitter {
     });
   }
 
+  /**
+   * Start the sandbox detached from this process, so it outlives it, and record
+   * it in the state file for later runs to reuse
+   * @returns The state of the running sandbox
+   */
+  async startDaemon(): Promise<SandboxState> {
+    const existing = readSandboxState(this.port);
+    if (existing && isProcessAlive(existing.pid)) {
+      throw new Error(
+        `A sandbox already runs on port ${this.port} (pid ${existing.pid})`,
+      );
+    }
+
+    mkdirSync(SANDBOX_STATE_DIR, { recursive: true });
+    const logFile = getSandboxLogPath(this.port);
+    const logFd = openSync(logFile, "w");
+    const child = this.spawnSandboxProcess(logFd);
+    closeSync(logFd);
+    if (child.pid === undefined) {
+      throw new Error("Failed to spawn sandbox process");
+    }
+    child.unref();
+
+    const state: SandboxState = {
+      pid: child.pid,
+      host: this.host,
+      port: this.port,
+      l1Port: this.l1Port,
+      adminPort: this.adminPort,
+      logFile,
+      startedAt: new Date().toISOString(),
+    };
+    writeSandboxState(state);
+
+    const exited = new Promise<never>((_, reject) => {
+      child.once("error", reject);
+      child.once("exit", (code) =>
+        reject(
+          new Error(`Sandbox process exited with code ${code}, see ${logFile}`),
+        ),
+      );
+    });
+    // Only matters until the node answers
+    exited.catch(() => {});
+    try {
+      state.version = await Promise.race([
+        this.checkSandboxConnectivity(),
+        exited,
+      ]);
+    } catch (error) {
+      await stopSandboxDaemon(this.port, this.forceKillTimeout);
+      throw error;
+    }
+    writeSandboxState(state);
+    return state;
+  }
+
+  /**
+   * Start Anvil on the L1 port, for the sandbox to use instead of starting its own
+   * @param l1State - optional - A state dumped by `anvil_dumpState` to load
+   */
+  async startL1Node(l1State?: string): Promise<void> {
+    const l1Process = spawn(
+      "anvil",
+      ["--host", "127.0.0.1", "--port", String(this.l1Port), "--silent"],
+      { stdio: "ignore" },
+    );
+    let spawnError: Error | undefined;
+    l1Process.once("error", (error) => {
+      spawnError = error;
+    });
+    this.l1Process = l1Process;
+
+    const maxRetries = 50;
+    for (let attempt = 1; ; attempt++) {
+      if (spawnError) {
+        this.l1Process = null;
+        throw new Error(`Failed to start Anvil: ${spawnError.message}`);
+      }
+      try {
+        await l1Request(this.l1RpcUrl, "eth_chainId");
+        break;
+      } catch {
+        if (attempt === maxRetries) {
+          await this.stopL1Node();
+          throw new Error(`Anvil did not answer on port ${this.l1Port}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+    }
+
+    if (l1State) {
+      await l1Request(this.l1RpcUrl, "anvil_loadState", [l1State]);
+    }
+  }
+
+  /**
+   * Stop the L1 node we run, if any, and wait for it to free its port
+   */
+  async stopL1Node(): Promise<void> {
+    const l1Process = this.l1Process;
+    this.l1Process = null;
+    if (!l1Process?.pid || l1Process.exitCode !== null) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      l1Process.once("exit", () => resolve());
+      l1Process.kill("SIGTERM");
+    });
+  }
+
+  /**
+   * Kill the L1 node we run without waiting, when the sandbox failed to start
+   */
+  killL1Node(): void {
+    this.l1Process?.kill("SIGTERM");
+    this.l1Process = null;
+  }
+
+  /**
+   * Save the node data and the L1 state under a name, for `restoreSnapshot` to
+   * bring a sandbox back to this point. The node restarts in the process.
+   * @param name - The snapshot name
+   * @returns The snapshot directory
+   */
+  async saveSnapshot(name: string): Promise<string> {
+    if (!this.dataDirectory || !this.l1Process || !this.isReady) {
+      throw new Error(
+        "Only a running sandbox started with a data directory can be snapshotted",
+      );
+    }
+
+    // The node keeps its databases open, stop it so the copy and the L1 state match
+    console.log(`📸 Saving sandbox snapshot "${name}"`);
+    await this.stopNode();
+    const l1State = await l1Request(this.l1RpcUrl, "anvil_dumpState");
+    if (typeof l1State !== "string") {
+      throw new Error("anvil_dumpState did not return the L1 state");
+    }
+
+    const path = getSnapshotPath(name);
+    rmSync(path, { recursive: true, force: true });
+    mkdirSync(path, { recursive: true });
+    cpSync(this.nodeDataDirectory, join(path, SNAPSHOT_NODE_DIR), {
+      recursive: true,
+    });
+    writeFileSync(join(path, SNAPSHOT_L1_STATE_FILE), l1State);
+
+    await this.start();
+    return path;
+  }
+
+  /**
+   * Restart the sandbox from a snapshot saved with `saveSnapshot`
+   * @param name - The snapshot name
+   */
+  async restoreSnapshot(name: string): Promise<void> {
+    if (!this.dataDirectory) {
+      throw new Error("Only a sandbox with a data directory can be restored");
+    }
+    if (!hasSnapshot(name)) {
+      throw new Error(
+        `No sandbox snapshot "${name}", create it with \`yarn sandbox snapshot ${name}\``,
+      );
+    }
+
+    console.log(`⏪ Restoring sandbox snapshot "${name}"`);
+    await this.stop();
+    const path = getSnapshotPath(name);
+    rmSync(this.nodeDataDirectory, { recursive: true, force: true });
+    cpSync(join(path, SNAPSHOT_NODE_DIR), this.nodeDataDirectory, {
+      recursive: true,
+    });
+    await this.startL1Node(
+      readFileSync(join(path, SNAPSHOT_L1_STATE_FILE), "utf8"),
+    );
+    await this.start();
+  }
+
   cleanup(): void {
     // Only kill process if we own it, not if using external sandbox
     if (!this.isExternalSandbox && this.process) {
       this.process.kill("SIGTERM");
     }
+    this.killL1Node();
 
     // Reset all state centrally
     this.resetState();
@@ -455,6 +916,100 @@ async function startSandbox(
   return manager;
 }
 
-// This script is designed for Jest testing only - no standalone CLI execution
+/**
+ * Start several isolated sandboxes side by side, e.g. one per test worker.
+ * Sandbox `i` listens on the given ports + `i`.
+ * @param count - The number of sandboxes
+ * @param options - optional - The options of the first sandbox
+ * @returns The managers, in port order
+ */
+async function startSandboxes(
+  count: number,
+  options: SandboxManagerOptions = {},
+): Promise<SandboxManager[]> {
+  const {
+    port = DEFAULT_PORT,
+    l1Port = DEFAULT_L1_PORT,
+    adminPort = DEFAULT_ADMIN_PORT,
+    dataDirectory,
+  } = options;
+
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, i) =>
+      startSandbox({
+        ...options,
+        port: port + i,
+        l1Port: l1Port + i,
+        adminPort: adminPort + i,
+        dataDirectory: dataDirectory && join(dataDirectory, `${port + i}`),
+      }),
+    ),
+  );
+
+  const managers = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : [],
+  );
+  const failure = results.find((result) => result.status === "rejected");
+  if (failure) {
+    // Don't leave the sandboxes that did start behind
+    await Promise.all(managers.map((manager) => manager.stop()));
+    throw (failure as PromiseRejectedResult).reason;
+  }
+  return managers;
+}
+
+/**
+ * Stop the detached sandbox running on a port, and its children
+ * @param port - optional - The node port, 8080 by default
+ * @param forceKillTimeout - optional - How long to wait before killing it
+ * @returns The state of the stopped sandbox, undefined if none was recorded
+ */
+async function stopSandboxDaemon(
+  port: number = DEFAULT_PORT,
+  forceKillTimeout = 5000,
+): Promise<SandboxState | undefined> {
+  const state = readSandboxState(port);
+  if (!state) {
+    return undefined;
+  }
+
+  // The sandbox leads its own process group, signal Anvil and the node with it
+  const signal = (name: NodeJS.Signals) => {
+    try {
+      process.kill(-state.pid, name);
+    } catch {
+      // Already gone
+    }
+  };
+
+  if (isProcessAlive(state.pid)) {
+    signal("SIGTERM");
+    const deadline = Date.now() + forceKillTimeout;
+    while (isProcessAlive(state.pid) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    if (isProcessAlive(state.pid)) {
+      console.log("🔥 Force killing sandbox process");
+      signal("SIGKILL");
+    }
+  }
+
+  removeSandboxState(port);
+  return state;
+}
 
-export { startSandbox, SandboxManager };
+// `scripts/sandbox.ts` is the command-line entry point, `yarn sandbox`
+
+export {
+  getSandboxDataPath,
+  getSnapshotPath,
+  hasSnapshot,
+  isProcessAlive,
+  readSandboxState,
+  startSandbox,
+  startSandboxes,
+  stopSandboxDaemon,
+  SandboxManager,
+  type SandboxManagerOptions,
+  type SandboxState,
+};
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { type AddressInfo } from "net";
+import { type Server } from "http";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { setupTestSuite } from "./utils.js";
+import { GovernanceClient } from "./governance_client.js";
+import { createApiServer } from "./api_server.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+const listen = async (server: Server) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+};
+
+const serverUrl = (server: Server) =>
+  `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe("API server", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let alice: AztecAddress;
+  let bob: AztecAddress;
+  let governance: GovernanceClient;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    from?: string,
+  ) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(from ? { "X-Covenant-From": from } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [alice, bob] = accounts;
+
+    node = createAztecNodeClient(NODE_URL);
+    governance = await GovernanceClient.deploy(
+      { wallet, node, from: alice },
+      { admin: alice },
+    );
+
+    server = await listen(
+      createApiServer({ governance, node, accounts: { bob } }),
+    );
+    baseUrl = serverUrl(server);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await store.delete();
+  });
+
+  it("lists members", async () => {
+    const { status, body } = await request("GET", "/members");
+    expect(status).toBe(200);
+    expect(body).toStrictEqual([alice.toString()]);
+  });
+
+  it("creates and votes on a proposal", async () => {
+    const created = await request("POST", "/proposals", {
+      token: AztecAddress.ZERO.toString(),
+      amount: "10",
+      recipient: "bob",
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.proposalId).toBe("0");
+
+    const voted = await request("POST", "/proposals/0/votes", {
+      choice: "for",
+    });
+    expect(voted.status).toBe(200);
+
+    const { body } = await request("GET", "/proposals/0");
+    expect(body.votesFor).toBe("1");
+    expect(body.status).toBe("passed");
+
+    const again = await request("POST", "/proposals/0/votes", {
+      choice: "for",
+    });
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe("ALREADY_VOTED");
+  });
+
+  it("answers contract assertions with error codes", async () => {
+    const proposal = await request(
+      "POST",
+      "/proposals",
+      { token: AztecAddress.ZERO.toString(), amount: "10", recipient: "bob" },
+      "bob",
+    );
+    expect(proposal.status).toBe(403);
+    expect(proposal.body.error.code).toBe("NOT_A_MEMBER");
+
+    const removal = await request(
+      "DELETE",
+      `/members/${alice.toString()}`,
+      undefined,
+      bob.toString(),
+    );
+    expect(removal.status).toBe(403);
+    expect(removal.body.error.code).toBe("NOT_ADMIN");
+
+    const missing = await request("GET", "/proposals/7");
+    expect(missing.status).toBe(404);
+  });
+
+  it("rejects invalid requests", async () => {
+    const vote = await request("POST", "/proposals/0/votes", {
+      choice: "maybe",
+    });
+    expect(vote.status).toBe(400);
+    expect(vote.body.error.code).toBe("INVALID_CHOICE");
+
+    for (const body of ["null", "[]", '"bob"']) {
+      const response = await fetch(`${baseUrl}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe("INVALID_REQUEST");
+    }
+
+    expect((await request("GET", "/nowhere")).status).toBe(404);
+  });
+
+  it("requires the token when one is set and answers CORS preflights", async () => {
+    const secured = await listen(
+      createApiServer({
+        governance,
+        node,
+        token: "s3cret",
+        corsOrigin: "http://localhost:5173",
+      }),
+    );
+    const url = `${serverUrl(secured)}/members`;
+    try {
+      const anonymous = await fetch(url);
+      expect(anonymous.status).toBe(401);
+      expect((await anonymous.json()).error.code).toBe("UNAUTHORIZED");
+
+      const wrong = await fetch(url, {
+        headers: { Authorization: "Bearer guess" },
+      });
+      expect(wrong.status).toBe(401);
+
+      const authorized = await fetch(url, {
+        headers: { Authorization: "Bearer s3cret" },
+      });
+      expect(authorized.status).toBe(200);
+      expect(authorized.headers.get("access-control-allow-origin")).toBe(
+        "http://localhost:5173",
+      );
+
+      const preflight = await fetch(url, { method: "OPTIONS" });
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get("access-control-allow-headers")).toContain(
+        "Authorization",
+      );
+    } finally {
+      await new Promise((resolve) => secured.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,400 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import {
+  getProposalStatus,
+  parseVoteChoice,
+  type GovernanceClient,
+  type Proposal,
+} from "./governance_client.js";
+
+/**
+ * An error answered with its HTTP status and a stable code the frontend can match on
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Contract assertion messages and the HTTP error they are answered with
+const CONTRACT_ERRORS: [RegExp, number, string][] = [
+  [/Not a member/, 403, "NOT_A_MEMBER"],
+  [/Not admin/, 403, "NOT_ADMIN"],
+  [/Already a member/, 409, "ALREADY_A_MEMBER"],
+  [/Proposal not found/, 404, "PROPOSAL_NOT_FOUND"],
+  [/Proposal not finalized/, 409, "PROPOSAL_NOT_FINALIZED"],
+  [/Proposal already executed/, 409, "PROPOSAL_ALREADY_EXECUTED"],
+  [/Proposal closed/, 409, "PROPOSAL_CLOSED"],
+  [/Block number mismatch/, 409, "OUTSIDE_VOTING_PERIOD"],
+  // A note already spent, e.g. by a concurrent tx: the routes that know which note it is answer more precisely
+  [/Existing nullifier/, 409, "DUPLICATE_NULLIFIER"],
+  [/Invalid choice/, 400, "INVALID_CHOICE"],
+];
+
+/**
+ * Maps a thrown error to the HTTP error answered to the client
+ * @param error - The error thrown while handling a request
+ * @returns The matching API error, a 500 if the error is unknown
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const match = CONTRACT_ERRORS.find(([pattern]) => pattern.test(message));
+  if (match) {
+    const [, status, code] = match;
+    return new ApiError(status, code, message);
+  }
+  return new ApiError(500, "INTERNAL_ERROR", message);
+}
+
+/**
+ * @param governance - The Governance instance to expose, its sender is the default `from`
+ * @param node - The node, used for the block number proposal statuses depend on
+ * @param accounts - optional - Aliases accepted wherever an address is expected
+ * @param token - optional - A secret every request must send as `Authorization: Bearer <token>`
+ * @param corsOrigin - optional - The origin browsers may call the API from, e.g. `http://localhost:5173`
+ */
+export interface ApiServerOptions {
+  governance: GovernanceClient;
+  node: AztecNode;
+  accounts?: Record<string, AztecAddress>;
+  token?: string;
+  corsOrigin?: string;
+}
+
+interface ApiRequest {
+  gov: GovernanceClient;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: () => Promise<Record<string, unknown>>;
+}
+
+type Route = [
+  method: string,
+  path: string,
+  handler: (request: ApiRequest) => Promise<unknown>,
+];
+
+/**
+ * Matches a path against a route path such as `/proposals/:id`
+ * @returns The path parameters, undefined if the path doesn't match
+ */
+function matchPath(
+  path: string[],
+  routePath: string,
+): Record<string, string> | undefined {
+  const parts = routePath.split("/").filter(Boolean);
+  if (parts.length !== path.length) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith(":")) {
+      params[parts[i].slice(1)] = decodeURIComponent(path[i]);
+    } else if (parts[i] !== path[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+const FROM_HEADER = "x-covenant-from";
+const CORS_METHODS = "GET, POST, DELETE, OPTIONS";
+const CORS_HEADERS = `Content-Type, Authorization, ${FROM_HEADER}`;
+
+const digest = (secret: string) =>
+  new Uint8Array(createHash("sha256").update(secret).digest());
+
+// Compares digests so neither the token nor its length leaks through timing
+const sameSecret = (a: string, b: string) =>
+  timingSafeEqual(digest(a), digest(b));
+
+/**
+ * Creates an HTTP server exposing a Governance instance as a JSON API, for
+ * clients that can't run a PXE themselves.
+ * Txs are sent as the account in the `X-Covenant-From` header, an alias or an
+ * address, or as the governance client sender. Whoever reaches the server can
+ * act as any account of the wallet, so listen on a loopback address or set a
+ * `token`.
+ * @param options - The governance, node, account aliases, token and CORS origin
+ * @returns The server, not listening yet
+ */
+export function createApiServer(options: ApiServerOptions): Server {
+  const { governance, node, accounts = {}, token, corsOrigin } = options;
+
+  const resolveAddress = (value: unknown, field: string): AztecAddress => {
+    if (typeof value !== "string") {
+      throw new ApiError(400, "INVALID_REQUEST", `Missing ${field}`);
+    }
+    try {
+      return accounts[value] ?? AztecAddress.fromString(value);
+    } catch {
+      throw new ApiError(400, "INVALID_REQUEST", `Invalid ${field} "${value}"`);
+    }
+  };
+
+  const parseBigInt = (value: unknown, field: string): bigint => {
+    try {
+      return BigInt(value as string);
+    } catch {
+      throw new ApiError(400, "INVALID_REQUEST", `Invalid ${field} "${value}"`);
+    }
+  };
+
+  const withProposalStatus = (proposal: Proposal, blockNumber: number) => ({
+    ...proposal,
+    status: getProposalStatus(proposal, blockNumber),
+  });
+
+  const routes: Route[] = [
+    [
+      "GET",
+      "/health",
+      async () => ({ blockNumber: await node.getBlockNumber() }),
+    ],
+    ["GET", "/config", ({ gov }) => gov.getConfig()],
+    ["GET", "/members", ({ gov }) => gov.getMembers()],
+    [
+      "POST",
+      "/members",
+      async ({ gov, body }) => {
+        const { member } = await body();
+        const receipt = await gov.addMember(resolveAddress(member, "member"));
+        return { txHash: receipt.txHash };
+      },
+    ],
+    [
+      "DELETE",
+      "/members/:member",
+      async ({ gov, params }) => {
+        const receipt = await gov.removeMember(
+          resolveAddress(params.member, "member"),
+        );
+        return { txHash: receipt.txHash };
+      },
+    ],
+    [
+      "GET",
+      "/proposals",
+      async ({ gov }) => {
+        const count = await gov.getCurrentId();
+        const blockNumber = await node.getBlockNumber();
+        const proposals = [];
+        for (let i = 0n; i < count; i++) {
+          proposals.push(
+            withProposalStatus(await gov.getProposal(i), blockNumber),
+          );
+        }
+        return proposals;
+      },
+    ],
+    [
+      "POST",
+      "/proposals",
+      async ({ gov, body }) => {
+        const { token, amount, nft, tokenId, recipient } = await body();
+        const { proposalId, receipt } = await gov.createProposal(
+          nft === undefined
+            ? {
+                token: resolveAddress(token, "token"),
+                amount: parseBigInt(amount, "amount"),
+                recipient: resolveAddress(recipient, "recipient"),
+              }
+            : {
+                kind: "nft",
+                nft: resolveAddress(nft, "nft"),
+                tokenId: parseBigInt(tokenId, "tokenId"),
+                recipient: resolveAddress(recipient, "recipient"),
+              },
+        );
+        return { txHash: receipt.txHash, proposalId };
+      },
+    ],
+    [
+      "GET",
+      "/proposals/:id",
+      async ({ gov, params }) => {
+        const proposal = await gov.getProposal(parseBigInt(params.id, "id"));
+        return withProposalStatus(proposal, await node.getBlockNumber());
+      },
+    ],
+    [
+      "POST",
+      "/proposals/:id/votes",
+      async ({ gov, params, body }) => {
+        const { choice } = await body();
+        let voteChoice;
+        try {
+          voteChoice = parseVoteChoice(String(choice));
+        } catch (error) {
+          throw new ApiError(400, "INVALID_CHOICE", (error as Error).message);
+        }
+        try {
+          const receipt = await gov.castVote(
+            parseBigInt(params.id, "id"),
+            voteChoice,
+          );
+          return { txHash: receipt.txHash };
+        } catch (error) {
+          // The vote nullifier is the only one a member can push twice
+          const { code, message } = toApiError(error);
+          throw code === "DUPLICATE_NULLIFIER"
+            ? new ApiError(409, "ALREADY_VOTED", message)
+            : error;
+        }
+      },
+    ],
+    [
+      "POST",
+      "/proposals/:id/close",
+      async ({ gov, params }) => {
+        const receipt = await gov.closeProposal(parseBigInt(params.id, "id"));
+        return { txHash: receipt.txHash };
+      },
+    ],
+    [
+      "POST",
+      "/proposals/:id/withdraw",
+      async ({ gov, params }) => {
+        const id = parseBigInt(params.id, "id");
+        const { action } = await gov.getProposal(id);
+        const receipt =
+          action.kind === "nft"
+            ? await gov.withdrawNft(id)
+            : await gov.withdraw(id);
+        return { txHash: receipt.txHash };
+      },
+    ],
+    [
+      "GET",
+      "/treasury",
+      async ({ gov, query }) => {
+        const balances = [];
+        for (const token of query.getAll("token")) {
+          balances.push(
+            await gov.getTreasuryBalance(resolveAddress(token, "token")),
+          );
+        }
+        return balances;
+      },
+    ],
+  ];
+
+  const authorize = (req: IncomingMessage) => {
+    if (token === undefined) {
+      return;
+    }
+    const [scheme, credentials] = (req.headers.authorization ?? "").split(" ");
+    if (
+      scheme !== "Bearer" ||
+      !credentials ||
+      !sameSecret(credentials, token)
+    ) {
+      throw new ApiError(401, "UNAUTHORIZED", "Missing or invalid API token");
+    }
+  };
+
+  const handle = async (req: IncomingMessage): Promise<unknown> => {
+    authorize(req);
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname.split("/").filter(Boolean);
+
+    for (const [routeMethod, routePath, handler] of routes) {
+      const params = matchPath(path, routePath);
+      if (routeMethod !== method || !params) {
+        continue;
+      }
+      const from = req.headers[FROM_HEADER];
+      const gov =
+        typeof from === "string"
+          ? governance.withSender(resolveAddress(from, FROM_HEADER))
+          : governance;
+      return handler({
+        gov,
+        params,
+        query: url.searchParams,
+        body: () => readJsonBody(req),
+      });
+    }
+    throw new ApiError(
+      404,
+      "NOT_FOUND",
+      `No route for ${method} ${url.pathname}`,
+    );
+  };
+
+  return createServer((req, res) => {
+    if (corsOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", corsOrigin);
+      res.setHeader("Vary", "Origin");
+    }
+    // Preflight requests carry no credentials, so they are answered before authorizing
+    if (req.method === "OPTIONS") {
+      if (corsOrigin) {
+        res.setHeader("Access-Control-Allow-Methods", CORS_METHODS);
+        res.setHeader("Access-Control-Allow-Headers", CORS_HEADERS);
+        res.setHeader("Access-Control-Max-Age", "600");
+      }
+      res.writeHead(204).end();
+      return;
+    }
+    handle(req)
+      .then((result) => sendJson(res, 200, result))
+      .catch((error) => {
+        const { status, code, message } = toApiError(error);
+        sendJson(res, status, { error: { code, message } });
+      });
+  });
+}
+
+async function readJsonBody(
+  req: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of req) {
+    text += decoder.decode(chunk as Uint8Array, { stream: true });
+  }
+  text += decoder.decode();
+  if (text === "") {
+    return {};
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ApiError(400, "INVALID_REQUEST", "Invalid JSON body");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError(
+      400,
+      "INVALID_REQUEST",
+      "The body must be a JSON object",
+    );
+  }
+  return { ...body };
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify(data, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    ),
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { TokenContract } from "../artifacts/Token.js";
+import { NFTContract } from "../artifacts/NFT.js";
+import {
+  assertOwnsPrivateNFT,
+  deployNFTWithMinter,
+  deployTokenWithMinter,
+  expectTokenBalances,
+  setupTestSuite,
+} from "./utils.js";
+import {
+  checkAuthwit,
+  delegateNftTransfer,
+  delegateTokenBurn,
+  delegateTokenTransfer,
+  revokePublicAuthwit,
+} from "./authwit.js";
+
+describe("Authwits", () => {
+  let store: AztecLMDBStoreV2;
+  let wallet: TestWallet;
+  let alice: AztecAddress;
+  let relayer: AztecAddress;
+  let bob: AztecAddress;
+  let token: TokenContract;
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [alice, relayer, bob] = accounts;
+
+    token = (await deployTokenWithMinter(wallet, alice)) as TokenContract;
+    await token.methods
+      .mint_to_private(alice, 100n)
+      .send({ from: alice })
+      .wait();
+    await token.methods
+      .mint_to_public(alice, 100n)
+      .send({ from: alice })
+      .wait();
+  });
+
+  afterEach(async () => {
+    await store.delete();
+  });
+
+  it("lets a relayer move private tokens once with a private authwit", async () => {
+    const { action, authWitnesses } = await delegateTokenTransfer(
+      wallet,
+      token,
+      10n,
+      { owner: alice, caller: relayer, recipient: bob },
+    );
+    const intent = { owner: alice, caller: relayer, action };
+    expect(await checkAuthwit(wallet, intent, authWitnesses[0])).toStrictEqual({
+      private: true,
+      public: false,
+    });
+
+    await action.send({ from: relayer, authWitnesses }).wait();
+    await expectTokenBalances(token, alice, 100n, 90n);
+    await expectTokenBalances(token, bob, 0n, 10n);
+
+    // The nonce is nullified with the authwit
+    await expect(
+      action.send({ from: relayer, authWitnesses }).wait(),
+    ).rejects.toThrow();
+  });
+
+  it("sets, checks and revokes a public authwit", async () => {
+    const { action, authWitnesses } = await delegateTokenBurn(
+      wallet,
+      token,
+      30n,
+      { owner: alice, caller: relayer, from: "public" },
+    );
+    expect(authWitnesses).toHaveLength(0);
+    const intent = { owner: alice, caller: relayer, action };
+    expect((await checkAuthwit(wallet, intent)).public).toBe(true);
+
+    await revokePublicAuthwit(wallet, intent);
+    expect((await checkAuthwit(wallet, intent)).public).toBe(false);
+    await expect(action.send({ from: relayer }).wait()).rejects.toThrow();
+    await expectTokenBalances(token, alice, 100n, 100n);
+  });
+
+  it("rejects an authwit used by another caller", async () => {
+    const { action, authWitnesses } = await delegateTokenTransfer(
+      wallet,
+      token,
+      10n,
+      { owner: alice, caller: relayer, recipient: bob, to: "public" },
+    );
+
+    await expect(
+      action.send({ from: bob, authWitnesses }).wait(),
+    ).rejects.toThrow();
+    await expectTokenBalances(token, bob, 0n, 0n);
+  });
+
+  it("lets a relayer transfer an NFT on behalf of its owner", async () => {
+    const nft = (await deployNFTWithMinter(wallet, alice)) as NFTContract;
+    await nft.methods.mint_to_private(alice, 1n).send({ from: alice }).wait();
+
+    const { action, authWitnesses } = await delegateNftTransfer(
+      wallet,
+      nft,
+      1n,
+      { owner: alice, caller: relayer, recipient: bob },
+    );
+    await action.send({ from: relayer, authWitnesses }).wait();
+
+    await assertOwnsPrivateNFT(nft, 1n, alice, false);
+    await assertOwnsPrivateNFT(nft, 1n, bob, true);
+  });
+});
@@ -0,0 +1,253 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { FunctionCall, FunctionType } from "@aztec/aztec.js/abi";
+import { type TxReceipt } from "@aztec/aztec.js/tx";
+import {
+  AuthWitness,
+  lookupValidity,
+  SetPublicAuthwitContractInteraction,
+  type CallIntent,
+} from "@aztec/aztec.js/authorization";
+import { type ContractFunctionInteraction } from "@aztec/aztec.js/contracts";
+import { type TokenContract } from "../artifacts/Token.js";
+import { type NFTContract } from "../artifacts/NFT.js";
+import { type BalanceKind } from "./vault.js";
+
+/**
+ * An authorization for `caller` to perform `action` on behalf of `owner`.
+ * Token and NFT functions check it with `_validate_from_private` or
+ * `_validate_from_public` whenever `from` is not the caller, and the action
+ * commits to its `_nonce`, so an authwit can only be used once.
+ * @param owner - The account whose assets the action moves
+ * @param caller - The account or contract calling the function, e.g. a relayer or the Governance contract
+ * @param action - The exact call, with its arguments and nonce
+ */
+export interface AuthwitIntent {
+  owner: AztecAddress;
+  caller: AztecAddress;
+  action: ContractFunctionInteraction;
+}
+
+/**
+ * Whether an authwit would currently pass the checks of a private or a public function
+ */
+export interface AuthwitValidity {
+  private: boolean;
+  public: boolean;
+}
+
+/**
+ * A call on behalf of an owner, with the authorization it needs
+ * @param nonce - The `_nonce` argument of the call, the authwit commits to it
+ * @param authWitnesses - The private authwit to send the call with, none if it was set in public
+ */
+export interface DelegatedAction {
+  action: ContractFunctionInteraction;
+  nonce: Fr;
+  authWitnesses: AuthWitness[];
+}
+
+/**
+ * @param owner - The account whose assets move
+ * @param caller - The account or contract allowed to move them
+ * @param from - optional - The balance they move from, private by default
+ */
+export interface DelegationOptions {
+  owner: AztecAddress;
+  caller: AztecAddress;
+  from?: BalanceKind;
+}
+
+/**
+ * @param recipient - The account receiving the assets
+ * @param to - optional - The balance receiving them, private by default
+ */
+export interface DelegatedTransferOptions extends DelegationOptions {
+  recipient: AztecAddress;
+  to?: BalanceKind;
+}
+
+/**
+ * Creates the private authwit of an action. It is handed to whoever sends
+ * the tx, which carries it, and is consumed with the action's nonce.
+ * @param wallet - A wallet holding the owner's account
+ * @returns The authwit, to pass as `authWitnesses` when sending
+ */
+export async function createPrivateAuthwit(
+  wallet: Wallet,
+  { owner, caller, action }: AuthwitIntent,
+): Promise<AuthWitness> {
+  return wallet.createAuthWit(owner, await toCallIntent(caller, action));
+}
+
+/**
+ * Sets, or unsets, the public authwit of an action in the AuthRegistry,
+ * in a tx sent by the owner
+ * @param wallet - A wallet holding the owner's account
+ * @param authorized - optional - false to revoke it, true by default
+ */
+export async function setPublicAuthwit(
+  wallet: Wallet,
+  { owner, caller, action }: AuthwitIntent,
+  authorized = true,
+): Promise<TxReceipt> {
+  const interaction = await SetPublicAuthwitContractInteraction.create(
+    wallet,
+    owner,
+    await toCallIntent(caller, action),
+    authorized,
+  );
+  return interaction.send().wait();
+}
+
+/**
+ * Revokes a public authwit before it is used. A private authwit can't be
+ * revoked: it is valid until the action is performed, as long as it exists.
+ * @param wallet - A wallet holding the owner's account
+ */
+export async function revokePublicAuthwit(
+  wallet: Wallet,
+  intent: AuthwitIntent,
+): Promise<TxReceipt> {
+  return setPublicAuthwit(wallet, intent, false);
+}
+
+/**
+ * Checks whether an action is authorized
+ * @param wallet - A wallet holding the owner's account
+ * @param witness - optional - The private authwit to check, without it only the public one is
+ */
+export async function checkAuthwit(
+  wallet: Wallet,
+  { owner, caller, action }: AuthwitIntent,
+  witness?: AuthWitness,
+): Promise<AuthwitValidity> {
+  const { isValidInPrivate, isValidInPublic } = await lookupValidity(
+    wallet,
+    owner,
+    { caller, action },
+    witness ?? new AuthWitness(Fr.ZERO, []),
+  );
+  return {
+    private: witness !== undefined && isValidInPrivate,
+    public: isValidInPublic,
+  };
+}
+
+/**
+ * Builds an action on behalf of an owner with a fresh nonce and authorizes
+ * it the way its function checks it: a private authwit for a private
+ * function, a public one set right away for a public function.
+ * @param wallet - A wallet holding the owner's account
+ * @param build - Builds the action from its nonce
+ * @returns The action, for `caller` to send with `authWitnesses`
+ */
+export async function delegate(
+  wallet: Wallet,
+  owner: AztecAddress,
+  caller: AztecAddress,
+  build: (nonce: Fr) => ContractFunctionInteraction,
+): Promise<DelegatedAction> {
+  const nonce = Fr.random();
+  const action = build(nonce);
+  const intent = { owner, caller, action };
+  const { type } = await action.getFunctionCall();
+  if (type === FunctionType.PUBLIC) {
+    await setPublicAuthwit(wallet, intent);
+    return { action, nonce, authWitnesses: [] };
+  }
+  return {
+    action,
+    nonce,
+    authWitnesses: [await createPrivateAuthwit(wallet, intent)],
+  };
+}
+
+/**
+ * Authorizes a transfer of an owner's tokens, e.g. by a relayer
+ * @param amount - The amount to transfer
+ */
+export async function delegateTokenTransfer(
+  wallet: Wallet,
+  token: TokenContract,
+  amount: bigint,
+  options: DelegatedTransferOptions,
+): Promise<DelegatedAction> {
+  const {
+    owner,
+    caller,
+    recipient,
+    from = "private",
+    to = "private",
+  } = options;
+  const { methods } = token.withWallet(wallet);
+  return delegate(wallet, owner, caller, (nonce) =>
+    methods[`transfer_${from}_to_${to}`](owner, recipient, amount, nonce),
+  );
+}
+
+/**
+ * Authorizes a burn of an owner's tokens
+ * @param amount - The amount to burn
+ */
+export async function delegateTokenBurn(
+  wallet: Wallet,
+  token: TokenContract,
+  amount: bigint,
+  options: DelegationOptions,
+): Promise<DelegatedAction> {
+  const { owner, caller, from = "private" } = options;
+  const { methods } = token.withWallet(wallet);
+  return delegate(wallet, owner, caller, (nonce) =>
+    methods[`burn_${from}`](owner, amount, nonce),
+  );
+}
+
+/**
+ * Authorizes a transfer of an owner's NFT
+ * @param tokenId - The NFT to transfer
+ */
+export async function delegateNftTransfer(
+  wallet: Wallet,
+  nft: NFTContract,
+  tokenId: bigint,
+  options: DelegatedTransferOptions,
+): Promise<DelegatedAction> {
+  const {
+    owner,
+    caller,
+    recipient,
+    from = "private",
+    to = "private",
+  } = options;
+  const { methods } = nft.withWallet(wallet);
+  return delegate(wallet, owner, caller, (nonce) =>
+    methods[`transfer_${from}_to_${to}`](owner, recipient, tokenId, nonce),
+  );
+}
+
+/**
+ * Authorizes a burn of an owner's NFT
+ * @param tokenId - The NFT to burn
+ */
+export async function delegateNftBurn(
+  wallet: Wallet,
+  nft: NFTContract,
+  tokenId: bigint,
+  options: DelegationOptions,
+): Promise<DelegatedAction> {
+  const { owner, caller, from = "private" } = options;
+  const { methods } = nft.withWallet(wallet);
+  return delegate(wallet, owner, caller, (nonce) =>
+    methods[`burn_${from}`](owner, tokenId, nonce),
+  );
+}
+
+// The wallet interface only takes calls, not interactions
+async function toCallIntent(
+  caller: AztecAddress,
+  action: ContractFunctionInteraction,
+): Promise<CallIntent> {
+  return { caller, call: FunctionCall.from(await action.getFunctionCall()) };
+}
@@ -0,0 +1,214 @@
+import { readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+
+/**
+ * The metrics tracked for every benchmarked function
+ */
+export const METRICS = ["gates", "daGas", "l2Gas"] as const;
+export type Metric = (typeof METRICS)[number];
+
+export type FunctionMetrics = Record<Metric, number>;
+
+/**
+ * A function result as written by `aztec-benchmark`
+ */
+interface BenchmarkResult {
+  name: string;
+  totalGateCount?: number;
+  gas?: { gasLimits?: { daGas?: number; l2Gas?: number } };
+}
+
+/**
+ * A base and a current run of the same benchmark, e.g. `governance_base.benchmark.json`
+ * and `governance.benchmark.json`
+ */
+export interface BenchmarkPair {
+  name: string;
+  base: string;
+  current: string;
+}
+
+/**
+ * The change of a metric between the base and the current run
+ * @param change - Relative change in percent, undefined if the base is zero
+ */
+export interface MetricDelta {
+  base?: number;
+  current?: number;
+  change?: number;
+}
+
+export interface FunctionComparison {
+  benchmark: string;
+  function: string;
+  metrics: Record<Metric, MetricDelta>;
+}
+
+/**
+ * Maximum growth in percent per metric. `functions` keys are either a function
+ * name or `<benchmark>.<function>`, the latter taking precedence.
+ */
+export interface BenchmarkBudget {
+  default?: Partial<Record<Metric, number>>;
+  functions?: Record<string, Partial<Record<Metric, number>>>;
+}
+
+export interface BudgetViolation {
+  benchmark: string;
+  function: string;
+  metric: Metric;
+  change: number;
+  limit: number;
+}
+
+const BASE_SUFFIX = "_base.benchmark.json";
+const CURRENT_SUFFIX = ".benchmark.json";
+
+/**
+ * Reads the per-function metrics of a benchmark result file
+ * @param path - The result file
+ * @returns The metrics by function name
+ */
+export function readBenchmarkResults(
+  path: string,
+): Map<string, FunctionMetrics> {
+  const { results } = JSON.parse(readFileSync(path, "utf8")) as {
+    results?: BenchmarkResult[];
+  };
+  if (!Array.isArray(results)) {
+    throw new Error(`${path} is not an aztec-benchmark result file`);
+  }
+  return new Map(
+    results.map((result) => [
+      result.name,
+      {
+        gates: result.totalGateCount ?? 0,
+        daGas: result.gas?.gasLimits?.daGas ?? 0,
+        l2Gas: result.gas?.gasLimits?.l2Gas ?? 0,
+      },
+    ]),
+  );
+}
+
+/**
+ * Pairs every `*_base.benchmark.json` in a directory with its current run
+ * @param dir - The directory the results were written to
+ * @returns The pairs, by benchmark name
+ */
+export function findBenchmarkPairs(dir: string): BenchmarkPair[] {
+  const files = new Set(readdirSync(dir));
+  return [...files]
+    .filter((file) => file.endsWith(BASE_SUFFIX))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -BASE_SUFFIX.length);
+      const current = `${name}${CURRENT_SUFFIX}`;
+      if (!files.has(current)) {
+        throw new Error(`No current run ${current} for ${file}`);
+      }
+      return { name, base: join(dir, file), current: join(dir, current) };
+    });
+}
+
+const delta = (base?: number, current?: number): MetricDelta => ({
+  base,
+  current,
+  change:
+    base !== undefined && current !== undefined && base !== 0
+      ? ((current - base) / base) * 100
+      : undefined,
+});
+
+/**
+ * Compares the base and current runs of a benchmark, function by function.
+ * Functions only present in one of the runs have no change.
+ * @param pair - The benchmark result files
+ * @returns One comparison per function
+ */
+export function compareBenchmark(pair: BenchmarkPair): FunctionComparison[] {
+  const base = readBenchmarkResults(pair.base);
+  const current = readBenchmarkResults(pair.current);
+  const names = [...new Set([...base.keys(), ...current.keys()])];
+
+  return names.map((name) => ({
+    benchmark: pair.name,
+    function: name,
+    metrics: Object.fromEntries(
+      METRICS.map((metric) => [
+        metric,
+        delta(base.get(name)?.[metric], current.get(name)?.[metric]),
+      ]),
+    ) as Record<Metric, MetricDelta>,
+  }));
+}
+
+/**
+ * Checks the comparisons against a budget
+ * @param comparisons - The function comparisons
+ * @param budget - The maximum growth per metric
+ * @returns Every metric that grew more than allowed
+ */
+export function checkBudget(
+  comparisons: FunctionComparison[],
+  budget: BenchmarkBudget,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const comparison of comparisons) {
+    const limits = {
+      ...budget.default,
+      ...budget.functions?.[comparison.function],
+      ...budget.functions?.[`${comparison.benchmark}.${comparison.function}`],
+    };
+    for (const metric of METRICS) {
+      const limit = limits[metric];
+      const { change } = comparison.metrics[metric];
+      if (limit !== undefined && change !== undefined && change > limit) {
+        violations.push({
+          benchmark: comparison.benchmark,
+          function: comparison.function,
+          metric,
+          change,
+          limit,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+const formatDelta = ({ base, current, change }: MetricDelta): string => {
+  if (base === undefined) return `${current} (new)`;
+  if (current === undefined) return `${base} (removed)`;
+  if (change === undefined || change === 0) return `${current}`;
+  const sign = change > 0 ? "+" : "";
+  return `${base} → ${current} (${sign}${change.toFixed(2)}%)`;
+};
+
+/**
+ * Formats the comparisons as a Markdown table
+ */
+export function formatMarkdown(comparisons: FunctionComparison[]): string {
+  const rows = comparisons.map(
+    ({ benchmark, function: name, metrics }) =>
+      `| ${benchmark} | \`${name}\` | ${METRICS.map((metric) =>
+        formatDelta(metrics[metric]),
+      ).join(" | ")} |`,
+  );
+  return [
+    "| Benchmark | Function | Gates | DA gas | L2 gas |",
+    "| --- | --- | --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Formats a budget violation as a single line
+ */
+export const formatViolation = (violation: BudgetViolation): string =>
+  `${violation.benchmark}.${violation.function} ${violation.metric} grew ${violation.change.toFixed(2)}%, more than the ${violation.limit}% budget`;
+
+/**
+ * @returns The benchmark name of a result file, `governance` for `governance_base.benchmark.json`
+ */
+export const benchmarkName = (path: string): string =>
+  basename(path).replace(BASE_SUFFIX, "").replace(CURRENT_SUFFIX, "");
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkBudget,
+  compareBenchmark,
+  findBenchmarkPairs,
+  formatMarkdown,
+} from "./benchmark_compare.js";
+
+const result = (name: string, gates: number, daGas: number, l2Gas: number) => ({
+  name,
+  totalGateCount: gates,
+  gas: { gasLimits: { daGas, l2Gas } },
+});
+
+describe("benchmark comparison", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "benchmarks-"));
+    writeFileSync(
+      join(dir, "governance_base.benchmark.json"),
+      JSON.stringify({
+        results: [
+          result("cast_vote", 1000, 100, 200),
+          result("add_member", 500, 100, 200),
+        ],
+      }),
+    );
+    writeFileSync(
+      join(dir, "governance.benchmark.json"),
+      JSON.stringify({
+        results: [
+          result("cast_vote", 1100, 100, 190),
+          result("add_member", 500, 100, 200),
+        ],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true });
+  });
+
+  it("pairs base and current runs and computes deltas", () => {
+    const pairs = findBenchmarkPairs(dir);
+    expect(pairs.map((pair) => pair.name)).toStrictEqual(["governance"]);
+
+    const [castVote, addMember] = compareBenchmark(pairs[0]);
+    expect(castVote.function).toBe("cast_vote");
+    expect(castVote.metrics.gates).toStrictEqual({
+      base: 1000,
+      current: 1100,
+      change: 10,
+    });
+    expect(castVote.metrics.l2Gas.change).toBe(-5);
+    expect(addMember.metrics.gates.change).toBe(0);
+
+    expect(formatMarkdown([castVote])).toContain(
+      "| governance | `cast_vote` | 1000 → 1100 (+10.00%) | 100 | 200 → 190 (-5.00%) |",
+    );
+  });
+
+  it("reports functions over budget, most specific limit first", () => {
+    const comparisons = compareBenchmark(findBenchmarkPairs(dir)[0]);
+
+    expect(checkBudget(comparisons, { default: { gates: 20 } })).toHaveLength(
+      0,
+    );
+    expect(
+      checkBudget(comparisons, {
+        default: { gates: 20 },
+        functions: { cast_vote: { gates: 5 } },
+      }),
+    ).toStrictEqual([
+      {
+        benchmark: "governance",
+        function: "cast_vote",
+        metric: "gates",
+        change: 10,
+        limit: 5,
+      },
+    ]);
+    expect(
+      checkBudget(comparisons, {
+        functions: {
+          cast_vote: { gates: 5 },
+          "governance.cast_vote": { gates: 15 },
+        },
+      }),
+    ).toHaveLength(0);
+  });
+});
@@ -0,0 +1,45 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { BatchCall } from "@aztec/aztec.js/contracts";
+
+/**
+ * Mines empty txs until the node reaches the target block, e.g. to move past
+ * a proposal's voting window.
+ * @param wallet - The wallet to send the txs with
+ * @param node - The node whose block number is followed
+ * @param from - The account to send the txs from
+ * @param target - The block number to reach
+ * @returns The block number reached
+ */
+export async function advanceToBlock(
+  wallet: Wallet,
+  node: AztecNode,
+  from: AztecAddress,
+  target: number,
+): Promise<number> {
+  let blockNumber = await node.getBlockNumber();
+  while (blockNumber < target) {
+    await new BatchCall(wallet, []).send({ from }).wait();
+    blockNumber = await node.getBlockNumber();
+  }
+  return blockNumber;
+}
+
+/**
+ * Mines empty txs until the node is `blocks` blocks ahead
+ * @param wallet - The wallet to send the txs with
+ * @param node - The node whose block number is followed
+ * @param from - The account to send the txs from
+ * @param blocks - The number of blocks to advance
+ * @returns The block number reached
+ */
+export async function advanceBlocks(
+  wallet: Wallet,
+  node: AztecNode,
+  from: AztecAddress,
+  blocks: number,
+): Promise<number> {
+  const target = (await node.getBlockNumber()) + blocks;
+  return advanceToBlock(wallet, node, from, target);
+}
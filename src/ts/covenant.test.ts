@@ -5,7 +5,9 @@ import {
 import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
 import { TestWallet } from "@aztec/test-wallet/server";
 import { createAztecNodeClient } from "@aztec/aztec.js/node";
-import { assertOwnsPrivateNFT, deployGovernance, deployNFTWithMinter, deployTokenWithMinter, expectTokenBalances, expectUintNote, setupTestSuite } from "./utils.js";
+import { advanceToBlock, assertOwnsPrivateNFT, deployGovernance, deployNFTWithMinter, deployTokenWithMinter, expectTokenBalances, expectUintNote, setupTestSuite, useSnapshot } from "./utils.js";
+import { registerFixture } from "./fixtures.js";
+import { DEFAULT_GOVERNANCE_CONFIG } from "./governance_config.js";
 import { AztecAddress } from "@aztec/stdlib/aztec-address";
 import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
 
@@ -15,7 +17,6 @@ import {
   INITIAL_TEST_ENCRYPTION_KEYS,
 } from "@aztec/accounts/testing";
 import { ContractDeployer } from "@aztec/aztec.js/deployment";
-import { PXE } from "@aztec/pxe/server";
 import { Fr, GrumpkinScalar } from "@aztec/aztec.js/fields";
 import { deriveKeys, PublicKeys } from "@aztec/stdlib/keys";
 import { getContractInstanceFromInstantiationParams } from "@aztec/stdlib/contract";
@@ -24,8 +25,12 @@ import {
 } from "../artifacts/Token.js";
 import { NFTContract } from "../artifacts/NFT.js";
 
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
 describe("Gov Contract", () => {
-  let pxe: PXE;
+  // Tests expect a fresh Governance, e.g. with no proposal yet
+  const fixture = useSnapshot({ each: true });
+
   let store: AztecLMDBStoreV2;
 
   let wallet: TestWallet;
@@ -51,28 +56,37 @@ describe("Gov Contract", () => {
   let govSalt: Fr;
 
   beforeEach(async () => {
-    ({ pxe, store, wallet, accounts } = await setupTestSuite());
+    ({ store, wallet, accounts } = await setupTestSuite());
 
     [alice, bob] = accounts;
 
-    govSk = Fr.random();
-    govKeys = await deriveKeys(govSk);
-    govSalt = Fr.random();
-
-    gov = (await deployGovernance(
-      govKeys.publicKeys,
-      wallet,
-      alice,
-      govSalt,
-      [alice],
-      "constructor",
-    )) as GovernanceContract;
-
-    await wallet.registerContract(
-      gov.instance, //contractInstance,
-      GovernanceContractArtifact,
-      govSk,
-    );
+    if (fixture) {
+      const node = createAztecNodeClient(NODE_URL);
+      const contracts = await registerFixture(wallet, node, fixture);
+      govSk = Fr.fromString(fixture.contracts.governance.secretKey!);
+      govKeys = await deriveKeys(govSk);
+      gov = await GovernanceContract.at(contracts.governance.address, wallet);
+      token = await TokenContract.at(contracts.token.address, wallet);
+    } else {
+      govSk = Fr.random();
+      govKeys = await deriveKeys(govSk);
+      govSalt = Fr.random();
+
+      gov = (await deployGovernance(
+        govKeys.publicKeys,
+        wallet,
+        alice,
+        govSalt,
+        alice,
+        DEFAULT_GOVERNANCE_CONFIG,
+      )) as GovernanceContract;
+
+      await wallet.registerContract(
+        gov.instance, //contractInstance,
+        GovernanceContractArtifact,
+        govSk,
+      );
+    }
 
     // Register initial test accounts manually because of this:
     // https://github.com/AztecProtocol/aztec-packages/blame/next/yarn-project/accounts/src/schnorr/lazy.ts#L21-L25
@@ -87,12 +101,14 @@ describe("Gov Contract", () => {
       }),
     );
 
-    token = (await deployTokenWithMinter(wallet, alice)) as TokenContract;
-    await token
-      .withWallet(wallet)
-      .methods.mint_to_private(gov.instance.address, AMOUNT)
-      .send({ from: alice })
-      .wait();
+    if (!fixture) {
+      token = (await deployTokenWithMinter(wallet, alice)) as TokenContract;
+      await token
+        .withWallet(wallet)
+        .methods.mint_to_private(gov.instance.address, AMOUNT)
+        .send({ from: alice })
+        .wait();
+    }
   });
 
   afterEach(async () => {
@@ -104,12 +120,12 @@ describe("Gov Contract", () => {
       from: alice,
     });
 
-    const current_members = await gov.methods._view_members().simulate({
+    const [current_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
     // starting members list should be only the admin, at this case alice
-    expect(current_members[0]).toStrictEqual(alice.toBigInt());
+    expect(current_members).toContain(alice.toBigInt());
 
     // starting counter's value is 0
     expect(current_id).toStrictEqual(0n);
@@ -190,12 +206,12 @@ describe("Gov Contract", () => {
         .send({ from: alice })
         .wait();
 
-      const current_members = await gov.methods._view_members().simulate({
+      const [current_members] = await gov.methods._view_members(0).simulate({
         from: alice,
       });
 
-      expect(current_members[0]).toStrictEqual(alice.toBigInt());
-      expect(current_members[1]).toStrictEqual(bob.toBigInt());
+      expect(current_members).toContain(alice.toBigInt());
+      expect(current_members).toContain(bob.toBigInt());
 
       await gov
         .withWallet(wallet)
@@ -283,7 +299,103 @@ describe("Gov Contract", () => {
     });
   })
 
-  it("member adds a new member(bob), should succeed"), async () => {
+  describe("voting period", () => {
+    const VOTING_PERIOD = 3;
+    let shortGov: GovernanceContract;
+    let endBlock: number;
+
+    beforeEach(async () => {
+      shortGov = (await deployGovernance(
+        govKeys.publicKeys,
+        wallet,
+        alice,
+        Fr.random(),
+        alice,
+        { ...DEFAULT_GOVERNANCE_CONFIG, votingPeriod: VOTING_PERIOD },
+      )) as GovernanceContract;
+
+      await wallet.registerContract(
+        shortGov.instance,
+        GovernanceContractArtifact,
+        govSk,
+      );
+
+      await shortGov
+        .withWallet(wallet)
+        .methods.add_member(bob)
+        .send({ from: alice })
+        .wait();
+
+      await shortGov
+        .withWallet(wallet)
+        .methods.create_proposal(token.address, AMOUNT, bob)
+        .send({ from: alice })
+        .wait();
+
+      const proposal = await shortGov.methods._view_proposal(0n).simulate({
+        from: alice,
+      });
+      endBlock = Number(proposal.end_block);
+      expect(endBlock).toStrictEqual(
+        Number(proposal.start_block) + VOTING_PERIOD,
+      );
+    });
+
+    it("vote after the voting period, should fail", async () => {
+      await advanceToBlock(wallet, alice, endBlock + 1);
+
+      await expect(
+        shortGov
+          .withWallet(wallet)
+          .methods.cast_vote(0n, 1)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed/);
+    });
+
+    it("close proposal before the voting period ends, should fail", async () => {
+      await expect(
+        shortGov
+          .withWallet(wallet)
+          .methods.close_proposal(0n)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed/);
+    });
+
+    it("close proposal without quorum after the voting period, should reject it", async () => {
+      await shortGov
+        .withWallet(wallet)
+        .methods.cast_vote(0n, 1)
+        .send({ from: alice })
+        .wait();
+
+      await advanceToBlock(wallet, alice, endBlock + 1);
+
+      await shortGov
+        .withWallet(wallet)
+        .methods.close_proposal(0n)
+        .send({ from: alice })
+        .wait();
+
+      const proposal = await shortGov.methods._view_proposal(0n).simulate({
+        from: alice,
+      });
+
+      expect(proposal.closed).toStrictEqual(true);
+      expect(proposal.final).toStrictEqual(false);
+
+      await expect(
+        shortGov
+          .withWallet(wallet)
+          .methods.withdraw(0n)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed: Proposal not finalized/);
+    });
+  });
+
+  it("member adds a new member(bob), should succeed", async () => {
     await expect(
       gov
         .withWallet(wallet)
@@ -299,12 +411,12 @@ describe("Gov Contract", () => {
       .send({ from: alice })
       .wait();
 
-    const current_members = await gov.methods._view_members().simulate({
+    const [current_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(current_members[0]).toStrictEqual(alice.toBigInt());
-    expect(current_members[1]).toStrictEqual(bob.toBigInt());
+    expect(current_members).toContain(alice.toBigInt());
+    expect(current_members).toContain(bob.toBigInt());
 
     await gov
       .withWallet(wallet)
@@ -316,21 +428,23 @@ describe("Gov Contract", () => {
 
     // After a new proposal has been created it should be1
     expect(proposal_id).toStrictEqual(1n);
-  }
+  });
 
-  it("not a member adds a new member(bob), should fail"), async () => {
-    await gov
-      .withWallet(wallet)
-      .methods.add_member(bob)
-      .send({ from: bob })
-      .wait();
+  it("not a member adds a new member(bob), should fail", async () => {
+    await expect(
+      gov
+        .withWallet(wallet)
+        .methods.add_member(bob)
+        .send({ from: bob })
+        .wait(),
+    ).rejects.toThrow(/Assertion failed: Not a member/)
 
-    const current_members = await gov.methods._view_members().simulate({
+    const [current_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(current_members[0]).toStrictEqual(alice.toBigInt());
-    expect(current_members[1]).toStrictEqual(0n);
+    expect(current_members).toContain(alice.toBigInt());
+    expect(current_members).not.toContain(bob.toBigInt());
 
     await expect(
       gov
@@ -340,9 +454,9 @@ describe("Gov Contract", () => {
         .wait(),
     ).rejects.toThrow(/Assertion failed: Not a member/)
 
-  }
+  });
 
-  it("member (admin => members[0]) removes a member, should succeed"), async () => {
+  it("member (admin) removes a member, should succeed", async () => {
     await expect(
       gov
         .withWallet(wallet)
@@ -358,12 +472,12 @@ describe("Gov Contract", () => {
       .send({ from: alice })
       .wait();
 
-    const current_members = await gov.methods._view_members().simulate({
+    const [current_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(current_members[0]).toStrictEqual(alice.toBigInt());
-    expect(current_members[1]).toStrictEqual(bob.toBigInt());
+    expect(current_members).toContain(alice.toBigInt());
+    expect(current_members).toContain(bob.toBigInt());
 
     await gov
       .withWallet(wallet)
@@ -382,12 +496,12 @@ describe("Gov Contract", () => {
       .send({ from: alice })
       .wait();
 
-    const after_bob_members = await gov.methods._view_members().simulate({
+    const [after_bob_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(after_bob_members[0]).toStrictEqual(alice.toBigInt());
-    expect(after_bob_members[1]).toStrictEqual(0n);
+    expect(after_bob_members).toContain(alice.toBigInt());
+    expect(after_bob_members).not.toContain(bob.toBigInt());
 
     await expect(
       gov
@@ -410,12 +524,12 @@ describe("Gov Contract", () => {
       .send({ from: alice })
       .wait();
 
-    const after_alice_members = await gov.methods._view_members().simulate({
+    const [after_alice_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(after_alice_members[0]).toStrictEqual(bob.toBigInt());
-    expect(after_alice_members[1]).toStrictEqual(0n);
+    expect(after_alice_members).toContain(bob.toBigInt());
+    expect(after_alice_members).not.toContain(alice.toBigInt());
 
     await expect(
       gov
@@ -424,9 +538,13 @@ describe("Gov Contract", () => {
         .send({ from: alice })
         .wait(),
     ).rejects.toThrow(/Assertion failed: Not a member/)
-  }
 
-  it("not member (admin => members[0]) removes a member, should fail"), async () => {
+    // The admin role passed to the earliest remaining member
+    const admin = await gov.methods._view_admin().simulate({ from: bob });
+    expect(admin.equals(bob)).toBe(true);
+  });
+
+  it("not member (admin) removes a member, should fail", async () => {
     await expect(
       gov
         .withWallet(wallet)
@@ -442,12 +560,12 @@ describe("Gov Contract", () => {
       .send({ from: alice })
       .wait();
 
-    const current_members = await gov.methods._view_members().simulate({
+    const [current_members] = await gov.methods._view_members(0).simulate({
       from: alice,
     });
 
-    expect(current_members[0]).toStrictEqual(alice.toBigInt());
-    expect(current_members[1]).toStrictEqual(bob.toBigInt());
+    expect(current_members).toContain(alice.toBigInt());
+    expect(current_members).toContain(bob.toBigInt());
 
     await gov
       .withWallet(wallet)
@@ -467,7 +585,7 @@ describe("Gov Contract", () => {
         .send({ from: bob })
         .wait(),
     ).rejects.toThrow(/Assertion failed: Not admin/)
-  };
+  });
 
   describe('withdraw', () => {
     beforeEach(async () => {
@@ -520,6 +638,36 @@ describe("Gov Contract", () => {
       expect(notes.length).toBe(0);
     });
 
+    it("proposal already executed, member should NOT be able to withdraw again", async () => {
+      await gov
+        .withWallet(wallet)
+        .methods.cast_vote(0n, 1)
+        .send({ from: alice })
+        .wait();
+
+      await gov
+        .withWallet(wallet)
+        .methods.withdraw(0n)
+        .send({ from: alice })
+        .wait();
+
+      const proposal = await gov.methods._view_proposal(0n).simulate({
+        from: alice,
+      });
+      expect(proposal.executed).toStrictEqual(true);
+
+      await expect(
+        gov
+          .withWallet(wallet)
+          .methods.withdraw(0n)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed: Proposal already executed/);
+
+      await expectTokenBalances(token, gov.address, wad(0), wad(0), bob);
+      await expectTokenBalances(token, bob, wad(0), AMOUNT);
+    });
+
     it('not a member should NOT be able to withdraw', async () => {
       await expectTokenBalances(token, gov.address, wad(0), AMOUNT, bob);
       await expectTokenBalances(token, bob, wad(0), wad(0));
@@ -548,15 +696,26 @@ describe("Gov Contract", () => {
       tokenId = 1n;
       nft = (await deployNFTWithMinter(wallet, alice)) as NFTContract;
       await nft.withWallet(wallet).methods.mint_to_private(gov.address, tokenId).send({ from: alice }).wait();
+      await gov
+        .withWallet(wallet)
+        .methods.create_nft_proposal(nft.address, tokenId, bob)
+        .send({ from: alice })
+        .wait();
     });
 
-    it('member should be able to withdraw NFT correctly', async () => {
+    it('proposal finalized, member should be able to withdraw NFT correctly', async () => {
       await assertOwnsPrivateNFT(nft, tokenId, gov.address, true, bob);
       await assertOwnsPrivateNFT(nft, tokenId, bob, false);
 
       await gov
         .withWallet(wallet)
-        .methods.withdraw_nft(nft.address, tokenId, bob)
+        .methods.cast_vote(0n, 1)
+        .send({ from: alice })
+        .wait();
+
+      await gov
+        .withWallet(wallet)
+        .methods.withdraw_nft(0n)
         .send({ from: alice })
         .wait();
 
@@ -567,6 +726,40 @@ describe("Gov Contract", () => {
       expect(notes.length).toBe(1);
     });
 
+    it('proposal NOT finalized, member should NOT be able to withdraw NFT', async () => {
+      await expect(
+        gov
+          .withWallet(wallet)
+          .methods.withdraw_nft(0n)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed: Proposal not finalized/)
+
+      await assertOwnsPrivateNFT(nft, tokenId, gov.address, true, bob);
+      await assertOwnsPrivateNFT(nft, tokenId, bob, false);
+    });
+
+    it('token proposal, member should NOT be able to withdraw it as an NFT', async () => {
+      await gov
+        .withWallet(wallet)
+        .methods.create_proposal(token.address, AMOUNT, bob)
+        .send({ from: alice })
+        .wait();
+      await gov
+        .withWallet(wallet)
+        .methods.cast_vote(1n, 1)
+        .send({ from: alice })
+        .wait();
+
+      await expect(
+        gov
+          .withWallet(wallet)
+          .methods.withdraw_nft(1n)
+          .send({ from: alice })
+          .wait(),
+      ).rejects.toThrow(/Assertion failed: Wrong proposal kind/)
+    });
+
     it('not a member should NOT be able to withdraw NFT', async () => {
       await assertOwnsPrivateNFT(nft, tokenId, gov.address, true, bob);
       await assertOwnsPrivateNFT(nft, tokenId, bob, false);
@@ -574,7 +767,7 @@ describe("Gov Contract", () => {
       await expect(
         gov
           .withWallet(wallet)
-          .methods.withdraw_nft(nft.address, tokenId, bob)
+          .methods.withdraw_nft(0n)
           .send({ from: bob })
           .wait(),
       ).rejects.toThrow(/Assertion failed: Not a member/)
@@ -0,0 +1,491 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode, type NodeInfo } from "@aztec/aztec.js/node";
+import { AztecAddress, EthAddress } from "@aztec/aztec.js/addresses";
+import {
+  encodeArguments,
+  FunctionType,
+  type ContractArtifact,
+  type FunctionAbi,
+  type FunctionCall,
+} from "@aztec/aztec.js/abi";
+import { SentTx } from "@aztec/aztec.js/contracts";
+import { PublicKeys } from "@aztec/aztec.js/keys";
+import { TxHash, TxReceipt, TxStatus } from "@aztec/aztec.js/tx";
+import { type ExecutionPayload } from "@aztec/entrypoints/payload";
+import { type AbiDecoded } from "@aztec/stdlib/abi";
+import {
+  type ContractInstanceWithAddress,
+  type ContractInstantiationData,
+} from "@aztec/stdlib/contract";
+import {
+  NoteStatus,
+  type NotesFilter,
+  type UniqueNote,
+} from "@aztec/stdlib/note";
+import {
+  NestedProcessReturnValues,
+  TxSimulationResult,
+  UtilitySimulationResult,
+} from "@aztec/stdlib/tx";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type ProvenTransaction, type ProvingWallet } from "./token_client.js";
+
+type L1ContractAddresses = NodeInfo["l1ContractAddresses"];
+
+/**
+ * A function call the fake wallet simulated or sent.
+ * Utility functions get their arguments as passed, the others as encoded fields.
+ */
+export interface FakeCall {
+  to: AztecAddress;
+  name: string;
+  args: unknown[];
+  from?: AztecAddress;
+}
+
+/**
+ * A scripted return value, decoded the way the function's artifact decodes it
+ */
+export type FakeResult =
+  | bigint
+  | number
+  | boolean
+  | string
+  | Fr
+  | AztecAddress
+  | FakeResult[]
+  | { [field: string]: FakeResult };
+
+/**
+ * Computes a scripted result from the call. Throw to make the call fail.
+ */
+export type FakeResolver = (call: FakeCall) => FakeResult;
+
+/**
+ * A contract registered in the fake wallet
+ */
+export interface FakeRegistration {
+  instance: ContractInstanceWithAddress;
+  artifact?: ContractArtifact;
+  secretKey?: Fr;
+}
+
+/**
+ * A note `getNotes` can return, nullified or not
+ */
+export interface FakeNote {
+  note: UniqueNote;
+  nullified?: boolean;
+}
+
+const fakeInstance = (address: AztecAddress): ContractInstanceWithAddress => ({
+  address,
+  version: 1,
+  salt: Fr.ZERO,
+  deployer: AztecAddress.ZERO,
+  currentContractClassId: Fr.ZERO,
+  originalContractClassId: Fr.ZERO,
+  initializationHash: Fr.ZERO,
+  publicKeys: PublicKeys.default(),
+});
+
+/**
+ * In-process stand-in for the subset of `AztecNode` our helpers use. Contracts
+ * exist once added, and every tx sent through a `FakeWallet` is mined in a new block.
+ */
+export class FakeAztecNode
+  implements
+    Pick<
+      AztecNode,
+      | "getBlockNumber"
+      | "getContract"
+      | "getL1ContractAddresses"
+      | "getNodeInfo"
+      | "getTxReceipt"
+    >
+{
+  public blockNumber = 1;
+  public nodeVersion = "3.0.0-devnet.5";
+  // The L1 contracts `getL1ContractAddresses` reports, all at the zero address
+  public l1ContractAddresses: L1ContractAddresses = {
+    rollupAddress: EthAddress.ZERO,
+    registryAddress: EthAddress.ZERO,
+    inboxAddress: EthAddress.ZERO,
+    outboxAddress: EthAddress.ZERO,
+    feeJuiceAddress: EthAddress.ZERO,
+    feeJuicePortalAddress: EthAddress.ZERO,
+    coinIssuerAddress: EthAddress.ZERO,
+    rewardDistributorAddress: EthAddress.ZERO,
+    governanceProposerAddress: EthAddress.ZERO,
+    governanceAddress: EthAddress.ZERO,
+    stakingAssetAddress: EthAddress.ZERO,
+  };
+
+  private contracts = new Map<string, ContractInstanceWithAddress>();
+  private receipts = new Map<string, TxReceipt>();
+
+  /**
+   * Makes a contract exist at an address
+   * @param address - optional - The contract address, random if not provided
+   * @returns The contract instance
+   */
+  async addContract(
+    address?: AztecAddress,
+  ): Promise<ContractInstanceWithAddress> {
+    const instance = fakeInstance(address ?? (await AztecAddress.random()));
+    this.contracts.set(instance.address.toString(), instance);
+    return instance;
+  }
+
+  /**
+   * Mines a tx in a new block
+   * @param status - optional - The tx status, success by default
+   * @param error - optional - The revert reason
+   * @param txHash - optional - The tx hash, random if not provided
+   * @returns The receipt of the tx
+   */
+  mineTx(
+    status: TxStatus = TxStatus.SUCCESS,
+    error = "",
+    txHash = TxHash.random(),
+  ): TxReceipt {
+    this.blockNumber++;
+    const receipt = new TxReceipt(
+      txHash,
+      status,
+      error,
+      undefined,
+      undefined,
+      this.blockNumber,
+    );
+    this.receipts.set(receipt.txHash.toString(), receipt);
+    return receipt;
+  }
+
+  async getL1ContractAddresses(): Promise<L1ContractAddresses> {
+    return this.l1ContractAddresses;
+  }
+
+  async getNodeInfo(): Promise<NodeInfo> {
+    return {
+      nodeVersion: this.nodeVersion,
+      l1ChainId: 31337,
+      rollupVersion: 1,
+      enr: undefined,
+      l1ContractAddresses: this.l1ContractAddresses,
+      protocolContractAddresses: {
+        classRegistry: AztecAddress.fromNumber(3),
+        feeJuice: AztecAddress.fromNumber(5),
+        instanceRegistry: AztecAddress.fromNumber(2),
+        multiCallEntrypoint: AztecAddress.fromNumber(4),
+      },
+    };
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  async getContract(
+    address: AztecAddress,
+  ): Promise<ContractInstanceWithAddress | undefined> {
+    return this.contracts.get(address.toString());
+  }
+
+  async getTxReceipt(txHash: TxHash): Promise<TxReceipt> {
+    return (
+      this.receipts.get(txHash.toString()) ??
+      new TxReceipt(txHash, TxStatus.DROPPED, "Unknown tx")
+    );
+  }
+}
+
+/**
+ * In-process stand-in for a `Wallet`. Contracts built on it with `Contract.at`
+ * simulate with the results scripted with `onSimulate`, and send through
+ * `onSend` handlers. Proven txs carry the effects scripted with
+ * `onOffchainEffect`. The methods our helpers don't use throw.
+ */
+export class FakeWallet implements ProvingWallet {
+  /** The calls simulated, in order */
+  public readonly simulated: FakeCall[] = [];
+  /** The calls sent, in order */
+  public readonly sent: FakeCall[] = [];
+  /** The contracts registered, by address */
+  public readonly registered = new Map<string, FakeRegistration>();
+
+  private simulations = new Map<string, FakeResolver>();
+  private sends = new Map<string, (call: FakeCall) => void>();
+  private effects = new Map<string, (call: FakeCall) => Fr[]>();
+  private notes: FakeNote[] = [];
+
+  constructor(public readonly node: FakeAztecNode = new FakeAztecNode()) {}
+
+  getContractClassMetadata = unsupported("getContractClassMetadata");
+  getContractMetadata = unsupported("getContractMetadata");
+  getPrivateEvents = unsupported("getPrivateEvents");
+  getChainInfo = unsupported("getChainInfo");
+  registerSender = unsupported("registerSender");
+  getAddressBook = unsupported("getAddressBook");
+  getAccounts = unsupported("getAccounts");
+  profileTx = unsupported("profileTx");
+  createAuthWit = unsupported("createAuthWit");
+  batch = unsupported("batch");
+
+  /**
+   * Scripts the result of simulating a function
+   * @param name - The function name
+   * @param result - The decoded return value, or a function computing it
+   * @param to - optional - Only for this contract, any contract by default
+   */
+  onSimulate(
+    name: string,
+    result: FakeResult | FakeResolver,
+    to?: AztecAddress,
+  ): this {
+    const resolver = typeof result === "function" ? result : () => result;
+    this.simulations.set(scriptKey(name, to), resolver);
+    return this;
+  }
+
+  /**
+   * Scripts what happens when a tx calls a function, it succeeds by default
+   * @param name - The function name
+   * @param handler - Called with the call, throw to reject the tx
+   * @param to - optional - Only for this contract, any contract by default
+   */
+  onSend(
+    name: string,
+    handler: (call: FakeCall) => void,
+    to?: AztecAddress,
+  ): this {
+    this.sends.set(scriptKey(name, to), handler);
+    return this;
+  }
+
+  /**
+   * Scripts the offchain effect a function emits when a tx calling it is proven
+   * @param name - The function name
+   * @param effect - Computes the emitted data from the call
+   * @param to - optional - Only for this contract, any contract by default
+   */
+  onOffchainEffect(
+    name: string,
+    effect: (call: FakeCall) => Fr[],
+    to?: AztecAddress,
+  ): this {
+    this.effects.set(scriptKey(name, to), effect);
+    return this;
+  }
+
+  /**
+   * Sets the notes `getNotes` filters
+   */
+  setNotes(notes: FakeNote[]): this {
+    this.notes = notes;
+    return this;
+  }
+
+  async registerContract(
+    instanceData:
+      | AztecAddress
+      | ContractInstanceWithAddress
+      | ContractInstantiationData
+      | { instance: ContractInstanceWithAddress; artifact: ContractArtifact },
+    artifact?: ContractArtifact,
+    secretKey?: Fr,
+  ): Promise<ContractInstanceWithAddress> {
+    let instance: ContractInstanceWithAddress;
+    if (instanceData instanceof AztecAddress) {
+      instance =
+        (await this.node.getContract(instanceData)) ??
+        fakeInstance(instanceData);
+    } else if ("instance" in instanceData) {
+      instance = instanceData.instance;
+      artifact ??= instanceData.artifact;
+    } else if ("address" in instanceData) {
+      instance = instanceData;
+    } else {
+      throw new Error(
+        "FakeWallet can't register a contract by its deployment data",
+      );
+    }
+    const key = instance.address.toString();
+    const previous = this.registered.get(key);
+    this.registered.set(key, {
+      instance,
+      artifact: artifact ?? previous?.artifact,
+      secretKey: secretKey ?? previous?.secretKey,
+    });
+    return instance;
+  }
+
+  async simulateUtility(
+    functionName: string,
+    args: unknown[],
+    to: AztecAddress,
+  ): Promise<UtilitySimulationResult> {
+    const call = { to, name: functionName, args };
+    this.simulated.push(call);
+    return new UtilitySimulationResult(this.resolve(call) as AbiDecoded);
+  }
+
+  async simulateTx(
+    exec: ExecutionPayload,
+    opts: { from?: AztecAddress },
+  ): Promise<TxSimulationResult> {
+    const [functionCall] = exec.calls;
+    const call = toFakeCall(functionCall, opts.from);
+    this.simulated.push(call);
+    const values = encodeReturnValue(functionCall, this.resolve(call));
+    return new FakeSimulationResult(
+      await TxSimulationResult.random(),
+      new NestedProcessReturnValues(values),
+    );
+  }
+
+  async sendTx(
+    exec: ExecutionPayload,
+    opts: { from?: AztecAddress },
+  ): Promise<TxHash> {
+    return this.execute(exec, opts.from, TxHash.random());
+  }
+
+  /**
+   * Proves a tx without running its `onSend` handlers, they run once it is sent
+   */
+  async proveTx(
+    exec: ExecutionPayload,
+    opts: { from?: AztecAddress },
+  ): Promise<ProvenTransaction> {
+    const offchainEffects = exec.calls.flatMap((functionCall) => {
+      const call = toFakeCall(functionCall, opts.from);
+      const effect =
+        this.effects.get(scriptKey(call.name, call.to)) ??
+        this.effects.get(scriptKey(call.name));
+      return effect ? [{ data: effect(call), contractAddress: call.to }] : [];
+    });
+    const txHash = TxHash.random();
+    return {
+      offchainEffects,
+      getTxHash: () => txHash,
+      send: () =>
+        new SentTx(this, async () => this.execute(exec, opts.from, txHash)),
+    };
+  }
+
+  async getTxReceipt(txHash: TxHash): Promise<TxReceipt> {
+    return this.node.getTxReceipt(txHash);
+  }
+
+  /**
+   * Filters the notes set with `setNotes` like the PXE does: by contract,
+   * owner (the scopes), storage slot and status
+   */
+  async getNotes(filter: NotesFilter): Promise<UniqueNote[]> {
+    const status = filter.status ?? NoteStatus.ACTIVE;
+    return this.notes
+      .filter(
+        ({ note, nullified }) =>
+          note.contractAddress.equals(filter.contractAddress) &&
+          (!filter.scopes ||
+            filter.scopes.some((scope) => scope.equals(note.recipient))) &&
+          (!filter.storageSlot ||
+            note.storageSlot.equals(filter.storageSlot)) &&
+          (status === NoteStatus.ACTIVE_OR_NULLIFIED || !nullified),
+      )
+      .map(({ note }) => note);
+  }
+
+  private execute(
+    exec: ExecutionPayload,
+    from: AztecAddress | undefined,
+    txHash: TxHash,
+  ): TxHash {
+    for (const functionCall of exec.calls) {
+      const call = toFakeCall(functionCall, from);
+      const handler =
+        this.sends.get(scriptKey(call.name, call.to)) ??
+        this.sends.get(scriptKey(call.name));
+      handler?.(call);
+      this.sent.push(call);
+    }
+    return this.node.mineTx(TxStatus.SUCCESS, "", txHash).txHash;
+  }
+
+  private resolve(call: FakeCall): FakeResult {
+    const resolver =
+      this.simulations.get(scriptKey(call.name, call.to)) ??
+      this.simulations.get(scriptKey(call.name));
+    if (!resolver) {
+      throw new Error(
+        `No result scripted for ${call.name} on ${call.to.toString()}`,
+      );
+    }
+    return resolver(call);
+  }
+}
+
+/**
+ * A random simulation result with the scripted return values, in the shape
+ * aztec.js reads them
+ */
+class FakeSimulationResult extends TxSimulationResult {
+  constructor(
+    result: TxSimulationResult,
+    private readonly returnValues: NestedProcessReturnValues,
+  ) {
+    super(
+      result.privateExecutionResult,
+      result.publicInputs,
+      result.publicOutput,
+      result.stats,
+    );
+  }
+
+  override getPrivateReturnValues(): NestedProcessReturnValues {
+    return this.returnValues;
+  }
+
+  override getPublicReturnValues(): NestedProcessReturnValues[] {
+    return [this.returnValues];
+  }
+}
+
+const unsupported = (method: string) => (): never => {
+  throw new Error(`FakeWallet doesn't support ${method}`);
+};
+
+const scriptKey = (name: string, to?: AztecAddress) =>
+  `${to?.toString() ?? "*"}:${name}`;
+
+const toFakeCall = (call: FunctionCall, from?: AztecAddress): FakeCall => ({
+  to: call.to,
+  name: call.name,
+  args: call.args,
+  from,
+});
+
+/**
+ * Encodes a scripted return value the way the function returns it, for
+ * aztec.js to decode it again
+ */
+function encodeReturnValue(call: FunctionCall, value: FakeResult): Fr[] {
+  const abi: FunctionAbi = {
+    name: call.name,
+    functionType: FunctionType.PRIVATE,
+    isInternal: false,
+    isStatic: call.isStatic,
+    isInitializer: false,
+    parameters: call.returnTypes.map((type, i) => ({
+      name: `return_${i}`,
+      type,
+      visibility: "public",
+    })),
+    returnTypes: [],
+    errorTypes: {},
+  };
+  const values =
+    abi.parameters.length === 1 || !Array.isArray(value) ? [value] : value;
+  return encodeArguments(abi, values);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, inject, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { setupTestSuite } from "./utils.js";
+import { GovernanceClient } from "./governance_client.js";
+import {
+  deployCovenantFixture,
+  FIXTURE_TREASURY_AMOUNT,
+  readFixture,
+  registerFixture,
+  writeFixture,
+  type Fixture,
+} from "./fixtures.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+/**
+ * Connects to the fixture governance the way a test would, from a wallet that
+ * did not deploy it
+ */
+async function connectFixture(
+  wallet: TestWallet,
+  node: AztecNode,
+  fixture: Fixture,
+) {
+  const contracts = await registerFixture(wallet, node, fixture);
+  const { governance, token } = fixture.contracts;
+  const gov = await GovernanceClient.connect(
+    { wallet, node, from: AztecAddress.fromString(fixture.accounts[0]) },
+    AztecAddress.fromString(governance.address),
+    Fr.fromString(governance.secretKey!),
+  );
+  return { contracts, gov, token: AztecAddress.fromString(token.address) };
+}
+
+describe("Sandbox fixtures", () => {
+  let node: AztecNode;
+  let dir: string;
+  let stores: AztecLMDBStoreV2[];
+
+  beforeEach(() => {
+    node = createAztecNodeClient(NODE_URL);
+    dir = mkdtempSync(join(tmpdir(), "fixture-"));
+    stores = [];
+  });
+
+  afterEach(async () => {
+    rmSync(dir, { recursive: true });
+    for (const store of stores) {
+      await store.delete();
+    }
+  });
+
+  it("records the contracts and keys another wallet needs", async () => {
+    const deployer = await setupTestSuite();
+    stores.push(deployer.store);
+    const fixture = await deployCovenantFixture({ ...deployer, node });
+    writeFixture(dir, fixture);
+
+    const { store, wallet } = await setupTestSuite();
+    stores.push(store);
+    const { contracts, gov, token } = await connectFixture(
+      wallet,
+      node,
+      readFixture(dir),
+    );
+
+    expect(Object.keys(contracts)).toStrictEqual(["governance", "token"]);
+    expect(await gov.getAdmin()).toStrictEqual(deployer.accounts[0]);
+    // The treasury notes are only readable with the recorded governance key
+    expect((await gov.getTreasuryBalance(token)).private).toBe(
+      FIXTURE_TREASURY_AMOUNT,
+    );
+  });
+
+  it("rejects manifests with unknown artifacts", () => {
+    writeFixture(dir, {
+      name: "broken",
+      createdAt: new Date().toISOString(),
+      accounts: [],
+      contracts: {
+        counter: { address: AztecAddress.ZERO.toString(), artifact: "Counter" },
+      },
+    } as unknown as Fixture);
+
+    expect(() => readFixture(dir)).toThrow(
+      'Unknown artifact "Counter" for fixture contract "counter"',
+    );
+  });
+
+  // Only runs with `SANDBOX_SNAPSHOT`, see `yarn sandbox snapshot`
+  it.runIf(inject("fixture"))(
+    "the restored snapshot holds the fixture contracts",
+    async () => {
+      const { store, wallet } = await setupTestSuite();
+      stores.push(store);
+      const { gov, token } = await connectFixture(
+        wallet,
+        node,
+        inject("fixture")!,
+      );
+
+      expect(await gov.getCurrentId()).toBe(0n);
+      expect((await gov.getTreasuryBalance(token)).private).toBe(
+        FIXTURE_TREASURY_AMOUNT,
+      );
+    },
+  );
+});
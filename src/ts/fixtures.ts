@@ -0,0 +1,183 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { Contract } from "@aztec/aztec.js/contracts";
+import { type ContractArtifact } from "@aztec/aztec.js/abi";
+import { GovernanceContractArtifact } from "../artifacts/Governance.js";
+import { TokenContractArtifact } from "../artifacts/Token.js";
+import { NFTContractArtifact } from "../artifacts/NFT.js";
+import { GovernanceClient } from "./governance_client.js";
+import { type ProvingWallet } from "./token_client.js";
+
+// The manifest `writeFixture` saves next to the snapshot data
+export const FIXTURE_FILE = "fixture.json";
+
+// The amount `deployCovenantFixture` mints to the treasury
+export const FIXTURE_TREASURY_AMOUNT = 1000n;
+
+const FIXTURE_ARTIFACTS = {
+  Governance: GovernanceContractArtifact,
+  Token: TokenContractArtifact,
+  NFT: NFTContractArtifact,
+} satisfies Record<string, ContractArtifact>;
+
+export type FixtureArtifact = keyof typeof FIXTURE_ARTIFACTS;
+
+/**
+ * A contract deployed in a snapshot
+ * @param address - The contract address
+ * @param artifact - The name of its artifact
+ * @param secretKey - optional - The contract secret key, for contracts that own notes like Governance
+ * @param salt - optional - The contract address salt
+ */
+export interface FixtureContract {
+  address: string;
+  artifact: FixtureArtifact;
+  secretKey?: string;
+  salt?: string;
+}
+
+/**
+ * What a snapshot holds, so tests can use its contracts without deploying them
+ * @param name - The snapshot name
+ * @param accounts - The sandbox accounts the contracts were deployed with, in order
+ * @param contracts - The contracts by role, e.g. "governance"
+ */
+export interface Fixture {
+  name: string;
+  createdAt: string;
+  accounts: string[];
+  contracts: Record<string, FixtureContract>;
+}
+
+/**
+ * The wallet, node and accounts a fixture is deployed with
+ */
+export interface FixtureContext {
+  wallet: ProvingWallet;
+  node: AztecNode;
+  accounts: AztecAddress[];
+}
+
+/**
+ * Save a fixture manifest in a snapshot directory
+ * @param dir - The snapshot directory
+ * @param fixture - The fixture
+ */
+export function writeFixture(dir: string, fixture: Fixture): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, FIXTURE_FILE), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Read the fixture manifest of a snapshot directory
+ * @param dir - The snapshot directory
+ * @returns The fixture
+ */
+export function readFixture(dir: string): Fixture {
+  const path = join(dir, FIXTURE_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`No fixture manifest at ${path}`);
+  }
+  const fixture = JSON.parse(readFileSync(path, "utf8")) as Fixture;
+  for (const [role, contract] of Object.entries(fixture.contracts)) {
+    if (!(contract.artifact in FIXTURE_ARTIFACTS)) {
+      throw new Error(
+        `Unknown artifact "${contract.artifact}" for fixture contract "${role}"`,
+      );
+    }
+  }
+  return fixture;
+}
+
+/**
+ * Deploys what every covenant test starts from: a Governance instance with the
+ * first account as admin and a Token it can mint, with 1000 tokens minted to
+ * the treasury.
+ * @param context - The wallet, node and sandbox accounts
+ * @param name - optional - The snapshot name, "covenant" by default
+ * @returns The fixture to save with the snapshot
+ */
+export async function deployCovenantFixture(
+  context: FixtureContext,
+  name = "covenant",
+): Promise<Fixture> {
+  const { wallet, node, accounts } = context;
+  const [admin] = accounts;
+  const secretKey = Fr.random();
+  const salt = Fr.random();
+
+  const governance = await GovernanceClient.deploy(
+    { wallet, node, from: admin },
+    { admin, secretKey, salt },
+  );
+
+  const token = await Contract.deploy(
+    wallet,
+    TokenContractArtifact,
+    ["PrivateToken", "PT", 18, admin, AztecAddress.ZERO],
+    "constructor_with_minter",
+  )
+    .send({ from: admin })
+    .deployed();
+  await token.methods
+    .mint_to_private(governance.address, FIXTURE_TREASURY_AMOUNT)
+    .send({ from: admin })
+    .wait();
+
+  return {
+    name,
+    createdAt: new Date().toISOString(),
+    accounts: accounts.map((account) => account.toString()),
+    contracts: {
+      governance: {
+        address: governance.address.toString(),
+        artifact: "Governance",
+        secretKey: secretKey.toString(),
+        salt: salt.toString(),
+      },
+      token: { address: token.address.toString(), artifact: "Token" },
+    },
+  };
+}
+
+/**
+ * Registers the contracts of a fixture in a wallet, with their secret keys.
+ * The sandbox has to run the snapshot the fixture was saved with.
+ * @param wallet - The wallet to register the contracts in
+ * @param node - The node running the snapshot
+ * @param fixture - The fixture
+ * @returns The contracts by role
+ */
+export async function registerFixture(
+  wallet: Wallet,
+  node: AztecNode,
+  fixture: Fixture,
+): Promise<Record<string, Contract>> {
+  const contracts: Record<string, Contract> = {};
+  for (const [role, { address, artifact, secretKey }] of Object.entries(
+    fixture.contracts,
+  )) {
+    const contractAddress = AztecAddress.fromString(address);
+    const instance = await node.getContract(contractAddress);
+    if (!instance) {
+      throw new Error(
+        `Fixture contract "${role}" is not deployed at ${address}, is the "${fixture.name}" snapshot running?`,
+      );
+    }
+    await wallet.registerContract(
+      instance,
+      FIXTURE_ARTIFACTS[artifact],
+      secretKey ? Fr.fromString(secretKey) : undefined,
+    );
+    contracts[role] = await Contract.at(
+      contractAddress,
+      FIXTURE_ARTIFACTS[artifact],
+      wallet,
+    );
+  }
+  return contracts;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, assert, beforeEach, afterEach } from "vitest";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { createActors, deleteActors, setupTestSuite } from "./utils.js";
+import { receiveGovernanceKeys } from "./governance_keys.js";
+import {
+  DEFAULT_GOVERNANCE_CONFIG,
+  GovernanceClient,
+  type GovernanceConfig,
+  VoteChoice,
+} from "./governance_client.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+describe("GovernanceClient", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let alice: AztecAddress;
+  let bob: AztecAddress;
+  let gov: GovernanceClient;
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [alice, bob] = accounts;
+
+    node = createAztecNodeClient(NODE_URL);
+    gov = await GovernanceClient.deploy(
+      { wallet, node, from: alice },
+      { admin: alice },
+    );
+  });
+
+  afterEach(async () => {
+    await store.delete();
+  });
+
+  it("exposes the active config", async () => {
+    expect(await gov.getConfig()).toStrictEqual(DEFAULT_GOVERNANCE_CONFIG);
+
+    const config: GovernanceConfig = {
+      quorum: { kind: "absolute", votes: 2 },
+      approvalThreshold: 60,
+      votingPeriod: 10,
+    };
+    const custom = await GovernanceClient.deploy(
+      { wallet, node, from: alice },
+      { admin: alice, config },
+    );
+    expect(await custom.getConfig()).toStrictEqual(config);
+  });
+
+  it("decodes members without empty slots", async () => {
+    expect(await gov.getMembers()).toStrictEqual([alice]);
+
+    await gov.addMember(bob);
+
+    const members = await gov.getMembers();
+    expect(members.length).toBe(2);
+    expect(members.some((member) => member.equals(alice))).toBe(true);
+    expect(members.some((member) => member.equals(bob))).toBe(true);
+    expect(await gov.getMemberCount()).toBe(2);
+    expect((await gov.getAdmin()).equals(alice)).toBe(true);
+  });
+
+  it("reads members across pages", async () => {
+    // More members than fit in a single page of `_view_members`
+    const extra = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        wallet.createSchnorrAccount(Fr.random(), Fr.random()),
+      ),
+    );
+    for (const account of extra) {
+      await gov.addMember(account.address);
+    }
+
+    const members = await gov.getMembers();
+    expect(members.length).toBe(11);
+    expect(await gov.getMemberCount()).toBe(11);
+    for (const account of extra) {
+      expect(members.some((member) => member.equals(account.address))).toBe(
+        true,
+      );
+    }
+  });
+
+  it("decodes proposals and tallies", async () => {
+    expect(await gov.getCurrentId()).toBe(0n);
+
+    const action = { token: AztecAddress.ZERO, amount: 10n, recipient: bob };
+    const { proposalId } = await gov.createProposal(action);
+    expect(proposalId).toBe(0n);
+    await gov.castVote(proposalId, VoteChoice.For);
+
+    expect(await gov.getCurrentId()).toBe(1n);
+
+    const proposal = await gov.getProposal(0n);
+    expect(proposal.id).toBe(0n);
+    assert(proposal.action.kind === "token");
+    expect(proposal.action.token.equals(action.token)).toBe(true);
+    expect(proposal.action.amount).toBe(action.amount);
+    expect(proposal.action.recipient.equals(action.recipient)).toBe(true);
+    expect(proposal.votesFor).toBe(1n);
+    expect(proposal.votesAgainst).toBe(0n);
+    expect(proposal.final).toBe(true);
+    expect(proposal.executed).toBe(false);
+  });
+
+  it("acts as another sender", async () => {
+    const action = { token: AztecAddress.ZERO, amount: 10n, recipient: bob };
+    await expect(gov.withSender(bob).createProposal(action)).rejects.toThrow(
+      /Assertion failed: Not a member/,
+    );
+  });
+
+  it("shares the governance keys with a member running their own PXE", async () => {
+    const actors = await createActors(["alice", "bob", "carol"]);
+    const { alice: admin, bob: member, carol: outsider } = actors;
+
+    try {
+      const adminGov = await GovernanceClient.deploy(
+        { wallet: admin.wallet, node, from: admin.address },
+        { admin: admin.address },
+      );
+      await adminGov.addMember(member.address);
+
+      const memberGov = await GovernanceClient.join(
+        { wallet: member.wallet, node, from: member.address },
+        adminGov.address,
+        { sender: admin.address },
+      );
+
+      expect(memberGov.secretKey).toStrictEqual(adminGov.secretKey);
+      // The keys are encrypted to the member only
+      await expect(
+        receiveGovernanceKeys(
+          outsider.wallet,
+          node,
+          adminGov.address,
+          outsider.address,
+          { sender: admin.address },
+        ),
+      ).rejects.toThrow("No governance keys");
+      expect(await memberGov.getMemberCount()).toBe(2);
+      expect(
+        (await memberGov.getMembers()).map((m) => m.toString()).sort(),
+      ).toStrictEqual(
+        (await adminGov.getMembers()).map((m) => m.toString()).sort(),
+      );
+    } finally {
+      await deleteActors(actors);
+    }
+  });
+});
@@ -0,0 +1,430 @@
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { deriveKeys } from "@aztec/aztec.js/keys";
+import { type TxReceipt } from "@aztec/aztec.js/tx";
+import { BatchCall, Contract } from "@aztec/aztec.js/contracts";
+import {
+  GovernanceContract,
+  GovernanceContractArtifact,
+} from "../artifacts/Governance.js";
+import { TokenContract, TokenContractArtifact } from "../artifacts/Token.js";
+import {
+  getMasterSecretKeys,
+  receiveGovernanceKeys,
+  type ReceiveGovernanceKeysOptions,
+} from "./governance_keys.js";
+import {
+  decodeProposal,
+  encodeNftProposalAction,
+  encodeProposalAction,
+  type Proposal,
+  type ProposalAction,
+} from "./proposal.js";
+import {
+  decodeGovernanceConfig,
+  DEFAULT_GOVERNANCE_CONFIG,
+  encodeGovernanceConfig,
+  type GovernanceConfig,
+} from "./governance_config.js";
+import { type ProvingWallet } from "./token_client.js";
+
+export {
+  getProposalStatus,
+  type NftTransferAction,
+  type Proposal,
+  type ProposalAction,
+  type ProposalStatus,
+  type TokenTransferAction,
+} from "./proposal.js";
+export {
+  DEFAULT_GOVERNANCE_CONFIG,
+  type GovernanceConfig,
+  type Quorum,
+} from "./governance_config.js";
+
+/**
+ * Choices accepted by `cast_vote`
+ */
+export enum VoteChoice {
+  Against = 0,
+  For = 1,
+}
+
+/**
+ * Parses "for"/"against" (or 1/0) into a vote choice
+ * @param value - The choice as typed by a user
+ * @returns The vote choice
+ */
+export function parseVoteChoice(value: string): VoteChoice {
+  switch (value.toLowerCase()) {
+    case "for":
+    case "1":
+      return VoteChoice.For;
+    case "against":
+    case "0":
+      return VoteChoice.Against;
+    default:
+      throw new Error(`Invalid vote choice "${value}", use for or against`);
+  }
+}
+
+/**
+ * Everything needed to deploy a new Governance instance
+ * @param admin - The first member and admin of the governance
+ * @param config - optional - The quorum, approval threshold and voting period, every member has to vote for within 100 blocks by default
+ * @param secretKey - optional - The governance secret key, random if not provided
+ * @param salt - optional - The contract address salt, random if not provided
+ */
+export interface GovernanceDeployConfig {
+  admin: AztecAddress;
+  config?: GovernanceConfig;
+  secretKey?: Fr;
+  salt?: Fr;
+}
+
+/**
+ * Balances the treasury holds of a token
+ */
+export interface TreasuryBalance {
+  token: AztecAddress;
+  private: bigint;
+  public: bigint;
+}
+
+/**
+ * A proposal created by this client
+ * @param proposalId - The id the contract gave it
+ * @param receipt - The receipt of the tx that created it
+ */
+export interface CreatedProposal {
+  proposalId: bigint;
+  receipt: TxReceipt;
+}
+
+/**
+ * The wallet, node and account a client acts with
+ */
+export interface GovernanceClientContext {
+  wallet: ProvingWallet;
+  node: Pick<AztecNode, "getBlockNumber" | "getContract">;
+  from: AztecAddress;
+}
+
+/**
+ * Decodes a page of members, dropping the empty (zero) slots
+ * @param members - The member fields of a page returned by `_view_members`
+ * @returns The member addresses of the page
+ */
+export const decodeMembers = (members: (bigint | Fr)[]): AztecAddress[] =>
+  members
+    .map((member) => (member instanceof Fr ? member.toBigInt() : member))
+    .filter((member) => member !== 0n)
+    .map((member) => AztecAddress.fromBigInt(member));
+
+/**
+ * Typed wrapper around a Governance instance.
+ * Takes care of the governance keys and contract registration so callers never
+ * have to deal with the generated artifacts.
+ */
+export class GovernanceClient {
+  private constructor(
+    private readonly context: GovernanceClientContext,
+    private readonly contract: GovernanceContract,
+    public readonly secretKey: Fr,
+  ) {}
+
+  /**
+   * Deploys a new Governance instance owned by its own set of keys and
+   * registers it in the wallet with the governance secret key.
+   * @param context - The wallet, node and deployer account
+   * @param config - The deployment config
+   * @returns A client connected to the new instance
+   */
+  static async deploy(
+    context: GovernanceClientContext,
+    config: GovernanceDeployConfig,
+  ): Promise<GovernanceClient> {
+    const { wallet, from } = context;
+    const secretKey = config.secretKey ?? Fr.random();
+    const salt = config.salt ?? Fr.random();
+    const { publicKeys } = await deriveKeys(secretKey);
+
+    const contract = (await Contract.deployWithPublicKeys(
+      publicKeys,
+      wallet,
+      GovernanceContractArtifact,
+      [
+        config.admin,
+        encodeGovernanceConfig(config.config ?? DEFAULT_GOVERNANCE_CONFIG),
+      ],
+      "constructor",
+    )
+      .send({ contractAddressSalt: salt, universalDeploy: true, from })
+      .deployed()) as GovernanceContract;
+
+    await wallet.registerContract(
+      contract.instance,
+      GovernanceContractArtifact,
+      secretKey,
+    );
+
+    return new GovernanceClient(context, contract, secretKey);
+  }
+
+  /**
+   * Connects to an already deployed Governance instance.
+   * @param context - The wallet, node and acting account
+   * @param address - The address of the Governance instance
+   * @param secretKey - The governance secret key, needed to decrypt its notes
+   * @returns A client connected to the instance
+   */
+  static async connect(
+    context: GovernanceClientContext,
+    address: AztecAddress,
+    secretKey: Fr,
+  ): Promise<GovernanceClient> {
+    const { wallet, node } = context;
+    const instance = await node.getContract(address);
+    if (!instance) {
+      throw new Error(`No contract instance found at ${address.toString()}`);
+    }
+
+    await wallet.registerContract(
+      instance,
+      GovernanceContractArtifact,
+      secretKey,
+    );
+    const contract = await GovernanceContract.at(address, wallet);
+
+    return new GovernanceClient(context, contract, secretKey);
+  }
+
+  /**
+   * Joins a Governance instance as a member running their own PXE, using the
+   * keys another member shared with `addMember`.
+   * @param context - The wallet, node and new member account
+   * @param address - The address of the Governance instance
+   * @param options - optional - Where to look for the shared keys
+   * @returns A client connected to the instance
+   */
+  static async join(
+    context: GovernanceClientContext,
+    address: AztecAddress,
+    options: ReceiveGovernanceKeysOptions = {},
+  ): Promise<GovernanceClient> {
+    const { wallet, node, from } = context;
+    const secretKey = await receiveGovernanceKeys(
+      wallet,
+      node,
+      address,
+      from,
+      options,
+    );
+    const contract = await GovernanceContract.at(address, wallet);
+
+    return new GovernanceClient(context, contract, secretKey);
+  }
+
+  get address(): AztecAddress {
+    return this.contract.address;
+  }
+
+  get from(): AztecAddress {
+    return this.context.from;
+  }
+
+  /**
+   * Returns a client acting as another account of the same wallet
+   * @param from - The account to act as
+   */
+  withSender(from: AztecAddress): GovernanceClient {
+    return new GovernanceClient(
+      { ...this.context, from },
+      this.contract,
+      this.secretKey,
+    );
+  }
+
+  private get methods() {
+    return this.contract.withWallet(this.context.wallet).methods;
+  }
+
+  /**
+   * Proposes a treasury transfer, of a token amount or of an NFT. The tx is
+   * proven once and its id read from the offchain effect the contract emits
+   * with it, so a proposal created at the same time can't be taken for this one.
+   * @param action - The transfer to execute once the proposal passes
+   */
+  async createProposal(action: ProposalAction): Promise<CreatedProposal> {
+    const call =
+      action.kind === "nft"
+        ? this.methods.create_nft_proposal(...encodeNftProposalAction(action))
+        : this.methods.create_proposal(...encodeProposalAction(action));
+    const tx = await this.context.wallet.proveTx(await call.request(), {
+      from: this.from,
+    });
+    const effect = tx.offchainEffects.find(({ contractAddress }) =>
+      contractAddress.equals(this.address),
+    );
+    if (!effect) {
+      throw new Error("The call did not emit a proposal id");
+    }
+
+    const receipt = await tx.send().wait();
+    return { proposalId: effect.data[0].toBigInt(), receipt };
+  }
+
+  /**
+   * Votes on a proposal, only accepted until its end block
+   * @param proposalId - The id of the proposal to vote on
+   * @param choice - For or against
+   */
+  async castVote(
+    proposalId: bigint | number,
+    choice: VoteChoice,
+  ): Promise<TxReceipt> {
+    return this.methods
+      .cast_vote(proposalId, choice)
+      .send({ from: this.from })
+      .wait();
+  }
+
+  /**
+   * Computes the outcome of a proposal once its voting window is over
+   * @param proposalId - The id of the proposal to close
+   */
+  async closeProposal(proposalId: bigint | number): Promise<TxReceipt> {
+    return this.methods
+      .close_proposal(proposalId)
+      .send({ from: this.from })
+      .wait();
+  }
+
+  /**
+   * Adds a member and shares the governance keys with them in the same tx
+   * @param member - The address of the new member
+   */
+  async addMember(member: AztecAddress): Promise<TxReceipt> {
+    const masterSecretKeys = await getMasterSecretKeys(this.secretKey);
+    return new BatchCall(this.context.wallet, [
+      this.methods.add_member(member),
+      this.methods.share_keys(member, this.secretKey, masterSecretKeys),
+    ])
+      .send({ from: this.from })
+      .wait();
+  }
+
+  /**
+   * Removes a member, as the admin. An admin removing itself hands the role
+   * to the earliest remaining member. The governance keys are not rotated, so
+   * the removed member can still decrypt new notes.
+   * @param member - The member to remove
+   */
+  async removeMember(member: AztecAddress): Promise<TxReceipt> {
+    return this.methods.remove_member(member).send({ from: this.from }).wait();
+  }
+
+  /**
+   * Executes a finalized token proposal, moving its amount out of the treasury
+   * @param proposalId - The id of the proposal to execute
+   */
+  async withdraw(proposalId: bigint | number): Promise<TxReceipt> {
+    return this.methods.withdraw(proposalId).send({ from: this.from }).wait();
+  }
+
+  /**
+   * Executes a finalized NFT proposal, moving its token out of the treasury
+   * @param proposalId - The id of the proposal to execute
+   */
+  async withdrawNft(proposalId: bigint | number): Promise<TxReceipt> {
+    return this.methods
+      .withdraw_nft(proposalId)
+      .send({ from: this.from })
+      .wait();
+  }
+
+  /**
+   * @returns The quorum, approval threshold and voting period the instance was deployed with
+   */
+  async getConfig(): Promise<GovernanceConfig> {
+    const config = await this.methods
+      ._view_config()
+      .simulate({ from: this.from });
+    return decodeGovernanceConfig(config);
+  }
+
+  /**
+   * Reads every page of `_view_members`
+   * @returns The member addresses, in no particular order
+   */
+  async getMembers(): Promise<AztecAddress[]> {
+    const members: AztecAddress[] = [];
+    for (let page = 0; ; page++) {
+      const [slots, pageLimitReached] = await this.methods
+        ._view_members(page)
+        .simulate({ from: this.from });
+      members.push(...decodeMembers(slots));
+      if (!pageLimitReached) {
+        return members;
+      }
+    }
+  }
+
+  async getMemberCount(): Promise<number> {
+    return Number(
+      await this.methods._view_member_count().simulate({ from: this.from }),
+    );
+  }
+
+  /**
+   * @returns The admin, the only account that can remove members
+   */
+  async getAdmin(): Promise<AztecAddress> {
+    return this.methods._view_admin().simulate({ from: this.from });
+  }
+
+  async getProposal(proposalId: bigint | number): Promise<Proposal> {
+    const note = await this.methods
+      ._view_proposal(proposalId)
+      .simulate({ from: this.from });
+    return decodeProposal(note);
+  }
+
+  /**
+   * Reads the treasury balances of a token, registering the token in the wallet
+   * @param token - The address of the token contract
+   */
+  async getTreasuryBalance(token: AztecAddress): Promise<TreasuryBalance> {
+    const { wallet, node } = this.context;
+    const instance = await node.getContract(token);
+    if (!instance) {
+      throw new Error(`No contract instance found at ${token.toString()}`);
+    }
+    await wallet.registerContract(instance, TokenContractArtifact);
+    const contract = await TokenContract.at(token, wallet);
+
+    return {
+      token,
+      private: BigInt(
+        await contract.methods
+          .balance_of_private(this.address)
+          .simulate({ from: this.from }),
+      ),
+      public: BigInt(
+        await contract.methods
+          .balance_of_public(this.address)
+          .simulate({ from: this.from }),
+      ),
+    };
+  }
+
+  /**
+   * @returns The id the next proposal will get, i.e. the number of proposals
+   */
+  async getCurrentId(): Promise<bigint> {
+    return BigInt(
+      await this.methods._view_current_id().simulate({ from: this.from }),
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { GovernanceClient } from "./governance_client.js";
+import { FakeAztecNode, FakeWallet } from "./fakes.js";
+
+describe("GovernanceClient (fake node)", () => {
+  let node: FakeAztecNode;
+  let wallet: FakeWallet;
+  let from: AztecAddress;
+  let secretKey: Fr;
+  let gov: GovernanceClient;
+
+  beforeEach(async () => {
+    node = new FakeAztecNode();
+    wallet = new FakeWallet(node);
+    from = await AztecAddress.random();
+    secretKey = Fr.random();
+    const { address } = await node.addContract();
+    gov = await GovernanceClient.connect(
+      { wallet: wallet, node: node, from },
+      address,
+      secretKey,
+    );
+  });
+
+  it("registers the instance with the governance secret key", () => {
+    expect(wallet.registered.get(gov.address.toString())?.secretKey).toBe(
+      secretKey,
+    );
+  });
+
+  it("reads every page of members and drops the empty slots", async () => {
+    const members = await Promise.all(
+      [0, 1, 2].map(() => AztecAddress.random()),
+    );
+    wallet.onSimulate("_view_members", ({ args: [page] }) =>
+      page === 0
+        ? [[members[0].toBigInt(), members[1].toBigInt()], true]
+        : [[members[2].toBigInt(), 0n], false],
+    );
+
+    expect(await gov.getMembers()).toStrictEqual(members);
+  });
+
+  it("reads the treasury balances of a registered token", async () => {
+    const token = await node.addContract();
+    wallet
+      .onSimulate("balance_of_private", 700n, token.address)
+      .onSimulate("balance_of_public", 300n, token.address);
+
+    expect(await gov.getTreasuryBalance(token.address)).toStrictEqual({
+      token: token.address,
+      private: 700n,
+      public: 300n,
+    });
+    await expect(
+      gov.getTreasuryBalance(await AztecAddress.random()),
+    ).rejects.toThrow("No contract instance found");
+  });
+
+  it("adds a member and shares the keys with them in one tx", async () => {
+    const member = await AztecAddress.random();
+
+    const receipt = await gov.addMember(member);
+
+    expect(wallet.sent.map((call) => call.name)).toStrictEqual([
+      "add_member",
+      "share_keys",
+    ]);
+    expect(receipt.blockNumber).toBe(await node.getBlockNumber());
+  });
+
+  it("returns the id the proven tx emitted, not the latest one", async () => {
+    wallet
+      .onOffchainEffect("create_proposal", () => [new Fr(4n)], gov.address)
+      .onSimulate("_view_current_id", 6n);
+
+    const { proposalId, receipt } = await gov.createProposal({
+      token: AztecAddress.ZERO,
+      amount: 10n,
+      recipient: from,
+    });
+
+    expect(proposalId).toBe(4n);
+    expect(wallet.sent.map((call) => call.name)).toStrictEqual([
+      "create_proposal",
+    ]);
+    expect(receipt.blockNumber).toBe(await node.getBlockNumber());
+  });
+
+  it("surfaces the reason a tx is rejected", async () => {
+    wallet
+      .onOffchainEffect("create_proposal", () => [Fr.ZERO])
+      .onSend("create_proposal", () => {
+        throw new Error("Assertion failed: Not a member");
+      });
+
+    await expect(
+      gov.createProposal({
+        token: AztecAddress.ZERO,
+        amount: 10n,
+        recipient: from,
+      }),
+    ).rejects.toThrow("Not a member");
+    expect(wallet.sent).toHaveLength(0);
+  });
+});
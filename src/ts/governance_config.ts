@@ -0,0 +1,76 @@
+/**
+ * Minimum participation for a proposal to pass, either an absolute number of
+ * votes or a percentage (1-100) of the current members
+ */
+export type Quorum =
+  | { kind: "absolute"; votes: number }
+  | { kind: "percentage"; percentage: number };
+
+/**
+ * Rules a proposal has to meet to pass, fixed at deployment
+ * @param quorum - The minimum participation
+ * @param approvalThreshold - The minimum percentage (1-100) of the votes cast that must be for
+ * @param votingPeriod - The number of blocks a proposal is open for voting
+ */
+export interface GovernanceConfig {
+  quorum: Quorum;
+  approvalThreshold: number;
+  votingPeriod: number;
+}
+
+/**
+ * Every member has to vote for a proposal within 100 blocks
+ */
+export const DEFAULT_GOVERNANCE_CONFIG: GovernanceConfig = {
+  quorum: { kind: "percentage", percentage: 100 },
+  approvalThreshold: 100,
+  votingPeriod: 100,
+};
+
+// Mirrors QUORUM_ABSOLUTE and QUORUM_PERCENTAGE in config_note.nr
+const QUORUM_ABSOLUTE = 0;
+const QUORUM_PERCENTAGE = 1;
+
+/**
+ * The fields of the `GovernanceConfig` struct, as the contract takes and returns them
+ */
+export interface GovernanceConfigFields {
+  quorum_kind: bigint | number;
+  quorum: bigint | number;
+  approval_threshold: bigint | number;
+  voting_period: bigint | number;
+}
+
+/**
+ * Encodes a config as the `GovernanceConfig` struct the constructor takes
+ * @param config - The config to encode
+ * @returns The struct fields
+ */
+export const encodeGovernanceConfig = (
+  config: GovernanceConfig,
+): GovernanceConfigFields => ({
+  quorum_kind:
+    config.quorum.kind === "absolute" ? QUORUM_ABSOLUTE : QUORUM_PERCENTAGE,
+  quorum:
+    config.quorum.kind === "absolute"
+      ? config.quorum.votes
+      : config.quorum.percentage,
+  approval_threshold: config.approvalThreshold,
+  voting_period: config.votingPeriod,
+});
+
+/**
+ * Decodes the `GovernanceConfig` struct returned by `_view_config`
+ * @param config - The struct as returned by the simulation
+ * @returns The decoded config
+ */
+export const decodeGovernanceConfig = (
+  config: GovernanceConfigFields,
+): GovernanceConfig => ({
+  quorum:
+    Number(config.quorum_kind) === QUORUM_ABSOLUTE
+      ? { kind: "absolute", votes: Number(config.quorum) }
+      : { kind: "percentage", percentage: Number(config.quorum) },
+  approvalThreshold: Number(config.approval_threshold),
+  votingPeriod: Number(config.voting_period),
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { setupTestSuite } from "./utils.js";
+import { GovernanceClient, VoteChoice } from "./governance_client.js";
+import { GovernanceIndexer } from "./governance_indexer.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+describe("GovernanceIndexer", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let alice: AztecAddress;
+  let bob: AztecAddress;
+  let gov: GovernanceClient;
+  let indexer: GovernanceIndexer;
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [alice, bob] = accounts;
+
+    node = createAztecNodeClient(NODE_URL);
+    gov = await GovernanceClient.deploy(
+      { wallet, node, from: alice },
+      { admin: alice },
+    );
+    indexer = await GovernanceIndexer.create(wallet, node, gov.address);
+  });
+
+  afterEach(async () => {
+    await indexer.delete();
+    await store.delete();
+  });
+
+  it("keeps every tally of a proposal", async () => {
+    await gov.addMember(bob);
+    const action = { token: AztecAddress.ZERO, amount: 10n, recipient: bob };
+    await gov.createProposal(action);
+    await gov.castVote(0n, VoteChoice.For);
+    await gov.withSender(bob).castVote(0n, VoteChoice.Against);
+
+    await indexer.sync();
+
+    const history = await indexer.getTallyHistory(0n);
+    expect(history.map(({ proposal }) => proposal.votesFor)).toStrictEqual([
+      0n,
+      1n,
+      1n,
+    ]);
+    expect(history.map(({ proposal }) => proposal.votesAgainst)).toStrictEqual([
+      0n,
+      0n,
+      1n,
+    ]);
+
+    const [proposal] = await indexer.getProposals();
+    expect(proposal.id).toBe(0n);
+    expect(proposal.votesAgainst).toBe(1n);
+    expect(await indexer.getProposals("passed")).toStrictEqual([]);
+  });
+
+  it("replays membership at a block", async () => {
+    const deployed = await indexer.sync();
+    await gov.addMember(bob);
+    const added = await indexer.sync();
+
+    const before = await indexer.getMembersAt(deployed);
+    expect(before.map((member) => member.toString())).toStrictEqual([
+      alice.toString(),
+    ]);
+
+    const after = await indexer.getMembersAt(added);
+    expect(after.some((member) => member.equals(bob))).toBe(true);
+
+    await gov.removeMember(bob);
+    const removed = await indexer.sync();
+
+    const changes = await indexer.getMembershipChanges();
+    expect(changes.at(-1)?.kind).toBe("removed");
+    expect(
+      (await indexer.getMembersAt(removed)).some((member) =>
+        member.equals(bob),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,419 @@
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type TxHash } from "@aztec/aztec.js/tx";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createStore, type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import {
+  type AztecAsyncArray,
+  type AztecAsyncMap,
+  type AztecAsyncMultiMap,
+  type AztecAsyncSingleton,
+} from "@aztec/kv-store";
+import { NoteStatus, type UniqueNote } from "@aztec/stdlib/note";
+import { createLogger } from "@aztec/foundation/log";
+import { GovernanceContract } from "../artifacts/Governance.js";
+import {
+  decodeProposalNote,
+  getProposalStatus,
+  type Proposal,
+  type ProposalStatus,
+} from "./proposal.js";
+
+// Field order of `MemberNote` in member_note.nr
+const MEMBER_NOTE_MEMBER_INDEX = 1;
+
+const INDEXER_SCHEMA_VERSION = 1;
+
+const log = createLogger("covenant:governance-indexer");
+
+/**
+ * A version of a proposal, i.e. one `ProposalNote`, and the block it was created at
+ */
+export interface ProposalVersion {
+  blockNumber: number;
+  txHash: string;
+  proposal: Proposal;
+}
+
+/**
+ * The latest known version of a proposal with its lifecycle status
+ */
+export interface IndexedProposal extends Proposal {
+  status: ProposalStatus;
+  updatedAt: number;
+}
+
+export interface MembershipChange {
+  blockNumber: number;
+  member: AztecAddress;
+  kind: "added" | "removed";
+}
+
+/**
+ * @param dataDirectory - optional - Where to keep the LMDB store, "indexer" by default
+ * @param pollingIntervalMs - optional - How often `start` checks for new blocks
+ * @param onError - optional - Called when a sync started by `start` fails, logged by default
+ */
+export interface GovernanceIndexerOptions {
+  dataDirectory?: string;
+  pollingIntervalMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+interface StoredProposalVersion {
+  proposalId: string;
+  blockNumber: number;
+  txHash: string;
+  items: string[];
+}
+
+interface StoredMembershipChange {
+  blockNumber: number;
+  member: string;
+  kind: "added" | "removed";
+}
+
+/**
+ * Keeps a local history of a Governance instance, as seen by a member's PXE.
+ * `_view_proposal` only returns the current `ProposalNote`, while every vote
+ * replaces it, so the indexer persists every note version it sees together with
+ * the membership changes.
+ * The wallet needs the instance registered with the governance secret key, e.g.
+ * through `GovernanceClient.connect` or `GovernanceClient.join`.
+ */
+export class GovernanceIndexer {
+  private readonly seenNotes: AztecAsyncMap<string, boolean>;
+  private readonly proposalVersions: AztecAsyncMap<
+    string,
+    StoredProposalVersion
+  >;
+  private readonly versionsByProposal: AztecAsyncMultiMap<string, string>;
+  private readonly members: AztecAsyncMap<string, number>;
+  private readonly removedAt: AztecAsyncMap<string, number>;
+  private readonly membershipChanges: AztecAsyncArray<StoredMembershipChange>;
+  private readonly lastBlock: AztecAsyncSingleton<number>;
+
+  private polling?: NodeJS.Timeout;
+  private syncing?: Promise<number>;
+
+  private constructor(
+    private readonly store: AztecLMDBStoreV2,
+    private readonly wallet: TestWallet,
+    private readonly node: AztecNode,
+    public readonly governance: AztecAddress,
+    private readonly pollingIntervalMs: number,
+    private readonly onError: (error: unknown) => void,
+  ) {
+    this.seenNotes = store.openMap("seen_notes");
+    this.proposalVersions = store.openMap("proposal_versions");
+    this.versionsByProposal = store.openMultiMap("versions_by_proposal");
+    this.members = store.openMap("members");
+    this.removedAt = store.openMap("removed_at");
+    this.membershipChanges = store.openArray("membership_changes");
+    this.lastBlock = store.openSingleton("last_block");
+  }
+
+  /**
+   * Opens (or creates) the store of a Governance instance
+   * @param wallet - The member's wallet, with the instance registered
+   * @param node - The node to follow
+   * @param governance - The address of the Governance instance
+   * @param options - optional - The store location, polling interval and error handler
+   * @returns The indexer, call `sync` or `start` to index
+   */
+  static async create(
+    wallet: TestWallet,
+    node: AztecNode,
+    governance: AztecAddress,
+    options: GovernanceIndexerOptions = {},
+  ): Promise<GovernanceIndexer> {
+    const {
+      dataDirectory = "indexer",
+      pollingIntervalMs = 1000,
+      onError = (error) => log.error("Governance indexer sync failed", error),
+    } = options;
+    const store = await createStore(
+      `governance-${governance.toString()}`,
+      INDEXER_SCHEMA_VERSION,
+      { dataDirectory, dataStoreMapSizeKb: 1e6 },
+    );
+    return new GovernanceIndexer(
+      store,
+      wallet,
+      node,
+      governance,
+      pollingIntervalMs,
+      onError,
+    );
+  }
+
+  /**
+   * @returns The last block the indexer synced to, 0 before the first sync
+   */
+  async getLastBlock(): Promise<number> {
+    return (await this.lastBlock.getAsync()) ?? 0;
+  }
+
+  /**
+   * Indexes the notes created since the last sync
+   * @returns The block the indexer synced to
+   */
+  async sync(): Promise<number> {
+    // Concurrent callers share the in-flight sync
+    this.syncing ??= this.doSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Syncs on every new block until `stop` is called
+   */
+  start(): void {
+    if (this.polling) {
+      return;
+    }
+    const poll = async () => {
+      const blockNumber = await this.node.getBlockNumber();
+      if (blockNumber > (await this.getLastBlock())) {
+        await this.sync();
+      }
+    };
+    const schedule = () => {
+      this.polling = setTimeout(() => {
+        poll()
+          .catch(this.onError)
+          .finally(() => {
+            if (this.polling) {
+              schedule();
+            }
+          });
+      }, this.pollingIntervalMs);
+    };
+    schedule();
+  }
+
+  /**
+   * Stops polling and waits for the in-flight sync to finish
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.polling);
+    this.polling = undefined;
+    await this.syncing;
+  }
+
+  async close(): Promise<void> {
+    await this.stop();
+    await this.store.close();
+  }
+
+  /**
+   * Stops the indexer and deletes its store
+   */
+  async delete(): Promise<void> {
+    await this.stop();
+    await this.store.delete();
+  }
+
+  /**
+   * @param status - optional - Only return the proposals with this status
+   * @returns The proposals at their latest version, ordered by id
+   */
+  async getProposals(status?: ProposalStatus): Promise<IndexedProposal[]> {
+    const lastBlock = await this.getLastBlock();
+    // Multimap keys repeat once per value
+    const proposalIds = new Set<string>();
+    for await (const proposalId of this.versionsByProposal.keysAsync()) {
+      proposalIds.add(proposalId);
+    }
+
+    const proposals: IndexedProposal[] = [];
+    for (const proposalId of proposalIds) {
+      const latest = (await this.getTallyHistory(BigInt(proposalId))).at(-1)!;
+      proposals.push({
+        ...latest.proposal,
+        status: getProposalStatus(latest.proposal, lastBlock),
+        updatedAt: latest.blockNumber,
+      });
+    }
+    return proposals
+      .filter((proposal) => !status || proposal.status === status)
+      .sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  /**
+   * @param proposalId - The id of the proposal
+   * @returns Every version of the proposal, from its creation to the latest vote
+   */
+  async getTallyHistory(
+    proposalId: bigint | number,
+  ): Promise<ProposalVersion[]> {
+    const versions: ProposalVersion[] = [];
+    for await (const key of this.versionsByProposal.getValuesAsync(
+      proposalId.toString(),
+    )) {
+      const stored = (await this.proposalVersions.getAsync(key))!;
+      versions.push({
+        blockNumber: stored.blockNumber,
+        txHash: stored.txHash,
+        proposal: decodeProposalNote(
+          stored.items.map((item) => Fr.fromString(item)),
+        ),
+      });
+    }
+    // A vote never lowers a tally, which orders versions within the same block
+    return versions.sort(
+      (a, b) =>
+        a.blockNumber - b.blockNumber ||
+        Number(
+          a.proposal.votesFor +
+            a.proposal.votesAgainst -
+            (b.proposal.votesFor + b.proposal.votesAgainst),
+        ),
+    );
+  }
+
+  /**
+   * @returns Every membership change, in the order they were indexed
+   */
+  async getMembershipChanges(): Promise<MembershipChange[]> {
+    const changes: MembershipChange[] = [];
+    for await (const change of this.membershipChanges.valuesAsync()) {
+      changes.push({
+        blockNumber: change.blockNumber,
+        member: AztecAddress.fromString(change.member),
+        kind: change.kind,
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Replays the membership changes up to a block.
+   * Removals are only as precise as the polling, they are recorded at the first
+   * synced block the member was missing from.
+   * @param blockNumber - The block to get the members at
+   * @returns The members at that block
+   */
+  async getMembersAt(blockNumber: number): Promise<AztecAddress[]> {
+    const members = new Map<string, AztecAddress>();
+    for (const change of await this.getMembershipChanges()) {
+      if (change.blockNumber > blockNumber) {
+        break;
+      }
+      if (change.kind === "added") {
+        members.set(change.member.toString(), change.member);
+      } else {
+        members.delete(change.member.toString());
+      }
+    }
+    return [...members.values()];
+  }
+
+  private async doSync(): Promise<number> {
+    const blockNumber = await this.node.getBlockNumber();
+    const { storage } = GovernanceContract;
+
+    // Nullified notes are the history `_view_proposal` doesn't show
+    const proposalNotes = await this.wallet.getNotes({
+      contractAddress: this.governance,
+      storageSlot: storage.proposals.slot,
+      status: NoteStatus.ACTIVE_OR_NULLIFIED,
+    });
+    const memberNotes = await this.wallet.getNotes({
+      contractAddress: this.governance,
+      storageSlot: storage.members.slot,
+      status: NoteStatus.ACTIVE_OR_NULLIFIED,
+    });
+    const activeMemberNotes = await this.wallet.getNotes({
+      contractAddress: this.governance,
+      storageSlot: storage.members.slot,
+      status: NoteStatus.ACTIVE,
+    });
+
+    const blocks = new Map<string, number>();
+    const getBlock = async (txHash: TxHash) => {
+      const key = txHash.toString();
+      if (!blocks.has(key)) {
+        const receipt = await this.node.getTxReceipt(txHash);
+        blocks.set(key, receipt.blockNumber ?? blockNumber);
+      }
+      return blocks.get(key)!;
+    };
+
+    for (const note of proposalNotes) {
+      const key = noteKey(note);
+      if (await this.seenNotes.hasAsync(key)) {
+        continue;
+      }
+      const proposal = decodeProposalNote(note.note.items);
+      await this.store.transactionAsync(async () => {
+        await this.proposalVersions.set(key, {
+          proposalId: proposal.id.toString(),
+          blockNumber: await getBlock(note.txHash),
+          txHash: note.txHash.toString(),
+          items: note.note.items.map((item) => item.toString()),
+        });
+        await this.versionsByProposal.set(proposal.id.toString(), key);
+        await this.seenNotes.set(key, true);
+      });
+    }
+
+    // Every membership check re-inserts the member's note, the first one since the
+    // member was last removed marks the addition
+    const firstSeen = new Map<string, number>();
+    for (const note of memberNotes) {
+      const member = decodeMember(note).toString();
+      const noteBlock = await getBlock(note.txHash);
+      if (noteBlock < ((await this.removedAt.getAsync(member)) ?? 0)) {
+        continue;
+      }
+      firstSeen.set(
+        member,
+        Math.min(firstSeen.get(member) ?? noteBlock, noteBlock),
+      );
+    }
+    const active = new Set<string>(
+      activeMemberNotes.map((note) => decodeMember(note).toString()),
+    );
+
+    const changes: StoredMembershipChange[] = [];
+    for (const member of active) {
+      if (!(await this.members.hasAsync(member))) {
+        changes.push({
+          blockNumber: firstSeen.get(member) ?? blockNumber,
+          member,
+          kind: "added",
+        });
+      }
+    }
+    for await (const member of this.members.keysAsync()) {
+      if (!active.has(member)) {
+        changes.push({ blockNumber, member, kind: "removed" });
+      }
+    }
+    changes.sort((a, b) => a.blockNumber - b.blockNumber);
+
+    await this.store.transactionAsync(async () => {
+      for (const change of changes) {
+        await this.membershipChanges.push(change);
+        if (change.kind === "added") {
+          await this.members.set(change.member, change.blockNumber);
+        } else {
+          await this.members.delete(change.member);
+          await this.removedAt.set(change.member, change.blockNumber);
+        }
+      }
+      await this.lastBlock.set(blockNumber);
+    });
+
+    return blockNumber;
+  }
+}
+
+const noteKey = (note: UniqueNote) =>
+  `${note.txHash.toString()}:${note.noteNonce.toString()}`;
+
+const decodeMember = (note: UniqueNote) =>
+  AztecAddress.fromField(note.note.items[MEMBER_NOTE_MEMBER_INDEX]);
@@ -0,0 +1,172 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr, type GrumpkinScalar } from "@aztec/aztec.js/fields";
+import { deriveKeys } from "@aztec/aztec.js/keys";
+import { EventSelector, type EventMetadataDefinition } from "@aztec/stdlib/abi";
+import { GovernanceContractArtifact } from "../artifacts/Governance.js";
+
+/**
+ * Governance master secret keys, as the `MasterSecretKeys` struct in `keys.nr`
+ */
+export interface MasterSecretKeys {
+  nsk_m: Fr;
+  ivsk_m: Fr;
+  ovsk_m: Fr;
+  tsk_m: Fr;
+}
+
+/**
+ * Decoded `ContrDetailsLogContent` event
+ */
+interface ContrDetailsLogContent {
+  contr: AztecAddress;
+  secret_key: bigint;
+  master_secret_keys: {
+    nsk_m: bigint;
+    ivsk_m: bigint;
+    ovsk_m: bigint;
+    tsk_m: bigint;
+  };
+}
+
+// `ContrDetailsLogContent` implements `EventInterface` by hand, so it is not part of the generated artifact
+const CONTR_DETAILS_SIGNATURE =
+  "ContrDetailsLogContent((Field),Field,(Field,Field,Field,Field))";
+
+const getContrDetailsEventMetadata =
+  async (): Promise<EventMetadataDefinition> => ({
+    eventSelector: await EventSelector.fromSignature(CONTR_DETAILS_SIGNATURE),
+    abiType: {
+      kind: "struct",
+      path: "covenant_aztec::types::keys::ContrDetailsLogContent",
+      fields: [
+        {
+          name: "contr",
+          type: {
+            kind: "struct",
+            path: "aztec::protocol_types::address::aztec_address::AztecAddress",
+            fields: [{ name: "inner", type: { kind: "field" } }],
+          },
+        },
+        { name: "secret_key", type: { kind: "field" } },
+        {
+          name: "master_secret_keys",
+          type: {
+            kind: "struct",
+            path: "covenant_aztec::types::keys::MasterSecretKeys",
+            fields: [
+              { name: "nsk_m", type: { kind: "field" } },
+              { name: "ivsk_m", type: { kind: "field" } },
+              { name: "ovsk_m", type: { kind: "field" } },
+              { name: "tsk_m", type: { kind: "field" } },
+            ],
+          },
+        },
+      ],
+    },
+    fieldNames: ["contr", "secret_key", "master_secret_keys"],
+  });
+
+const toField = (scalar: GrumpkinScalar) => new Fr(scalar.toBigInt());
+
+/**
+ * Derives the master secret keys in the shape `share_keys` expects
+ * @param secretKey - The governance secret key
+ * @returns The master secret keys as fields
+ */
+export async function getMasterSecretKeys(
+  secretKey: Fr,
+): Promise<MasterSecretKeys> {
+  const keys = await deriveKeys(secretKey);
+  return {
+    nsk_m: toField(keys.masterNullifierSecretKey),
+    ivsk_m: toField(keys.masterIncomingViewingSecretKey),
+    ovsk_m: toField(keys.masterOutgoingViewingSecretKey),
+    tsk_m: toField(keys.masterTaggingSecretKey),
+  };
+}
+
+/**
+ * Options for {@link receiveGovernanceKeys}
+ * @param sender - optional - The member that shared the keys, registered so the tagged log can be found
+ * @param fromBlock - optional - The block to start scanning from, defaults to 1
+ * @param numBlocks - optional - The number of blocks to scan, defaults to everything up to the tip
+ */
+export interface ReceiveGovernanceKeysOptions {
+  sender?: AztecAddress;
+  fromBlock?: number;
+  numBlocks?: number;
+}
+
+/**
+ * Scans the member's PXE for the governance keys shared through `share_keys`,
+ * checks them against the Governance instance and registers the instance with
+ * its secret key in the member's wallet.
+ * @param wallet - The member's wallet
+ * @param node - The node to read the contract instance from
+ * @param governance - The address of the Governance instance
+ * @param member - The member the keys were shared with
+ * @param options - optional - Scan options
+ * @returns The governance secret key
+ */
+export async function receiveGovernanceKeys(
+  wallet: Wallet,
+  node: Pick<AztecNode, "getBlockNumber" | "getContract">,
+  governance: AztecAddress,
+  member: AztecAddress,
+  options: ReceiveGovernanceKeysOptions = {},
+): Promise<Fr> {
+  const instance = await node.getContract(governance);
+  if (!instance) {
+    throw new Error(`No contract instance found at ${governance.toString()}`);
+  }
+
+  // Register without keys first so the PXE can sync the contract's private logs
+  await wallet.registerContract(instance, GovernanceContractArtifact);
+  if (options.sender) {
+    await wallet.registerSender(options.sender);
+  }
+
+  const fromBlock = options.fromBlock ?? 1;
+  const numBlocks =
+    options.numBlocks ?? (await node.getBlockNumber()) - fromBlock + 1;
+  const events = await wallet.getPrivateEvents<ContrDetailsLogContent>(
+    governance,
+    await getContrDetailsEventMetadata(),
+    fromBlock,
+    numBlocks,
+    [member],
+  );
+
+  // Several members may have shared the keys, any valid event will do
+  for (const event of events.filter((e) => e.contr.equals(governance))) {
+    const secretKey = new Fr(event.secret_key);
+    const { publicKeys } = await deriveKeys(secretKey);
+    if (!publicKeys.equals(instance.publicKeys)) {
+      continue;
+    }
+
+    const expected = await getMasterSecretKeys(secretKey);
+    const shared = event.master_secret_keys;
+    if (
+      expected.nsk_m.toBigInt() !== BigInt(shared.nsk_m) ||
+      expected.ivsk_m.toBigInt() !== BigInt(shared.ivsk_m) ||
+      expected.ovsk_m.toBigInt() !== BigInt(shared.ovsk_m) ||
+      expected.tsk_m.toBigInt() !== BigInt(shared.tsk_m)
+    ) {
+      continue;
+    }
+
+    await wallet.registerContract(
+      instance,
+      GovernanceContractArtifact,
+      secretKey,
+    );
+    return secretKey;
+  }
+
+  throw new Error(
+    `No governance keys for ${governance.toString()} were shared with ${member.toString()}`,
+  );
+}
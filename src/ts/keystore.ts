@@ -0,0 +1,72 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fq, Fr } from "@aztec/aztec.js/fields";
+import { type TestWallet } from "@aztec/test-wallet/server";
+
+export interface KeystoreAccount {
+  address: string;
+  secret: string;
+  salt: string;
+  signingKey: string;
+}
+
+/**
+ * Local account secrets and the governance in use, shared by the CLI and the API server
+ */
+export interface Keystore {
+  accounts: Record<string, KeystoreAccount>;
+  governance?: {
+    address: string;
+    secretKey: string;
+  };
+}
+
+/**
+ * @param path - optional - An explicit keystore path
+ * @returns The path, $COVENANT_KEYSTORE or .covenant/keystore.json
+ */
+export const getKeystorePath = (path?: string): string =>
+  path ?? process.env.COVENANT_KEYSTORE ?? ".covenant/keystore.json";
+
+export function loadKeystore(path: string): Keystore {
+  if (!existsSync(path)) {
+    return { accounts: {} };
+  }
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+export function saveKeystore(path: string, keystore: Keystore): void {
+  mkdirSync(dirname(path), { recursive: true });
+  // The keystore holds secret keys, keep it private to the current user
+  writeFileSync(path, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Resolve a keystore alias or a raw address
+ */
+export function resolveAddress(
+  keystore: Keystore,
+  value: string,
+): AztecAddress {
+  const account = keystore.accounts[value];
+  return AztecAddress.fromString(account ? account.address : value);
+}
+
+/**
+ * Registers every keystore account in the wallet so it can send txs
+ * @param wallet - The wallet to register the accounts in
+ * @param keystore - The keystore
+ */
+export async function registerKeystoreAccounts(
+  wallet: TestWallet,
+  keystore: Keystore,
+): Promise<void> {
+  for (const account of Object.values(keystore.accounts)) {
+    await wallet.createSchnorrAccount(
+      Fr.fromString(account.secret),
+      Fr.fromString(account.salt),
+      Fq.fromString(account.signingKey),
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { readFieldCompressedString } from "@aztec/aztec.js/utils";
+import { NFTContract, NFTContractArtifact } from "../artifacts/NFT.js";
+
+/**
+ * Where an account holds an NFT: as a private note or as its public owner
+ */
+export type NftVisibility = "private" | "public";
+
+export interface NftHolding {
+  tokenId: bigint;
+  visibility: NftVisibility;
+}
+
+/**
+ * The wallet, node and account a client acts with
+ */
+export interface NFTClientContext {
+  wallet: Wallet;
+  node: Pick<AztecNode, "getContract">;
+  from: AztecAddress;
+}
+
+/**
+ * Walks every page of `get_private_nfts`, skipping the zero placeholders of
+ * missing notes. A page is followed by another while `page_limit_reached`.
+ * @param nft - The NFT contract
+ * @param owner - The account whose notes are read, known to the wallet
+ * @param from - optional - The account reading them, the owner by default
+ */
+export async function* listPrivateNfts(
+  nft: NFTContract,
+  owner: AztecAddress,
+  from: AztecAddress = owner,
+): AsyncGenerator<bigint> {
+  for (let page = 0; ; page++) {
+    const [ids, pageLimitReached] = await nft.methods
+      .get_private_nfts(owner, page)
+      .simulate({ from });
+    for (const id of ids) {
+      if (BigInt(id) !== 0n) {
+        yield BigInt(id);
+      }
+    }
+    if (!pageLimitReached) {
+      return;
+    }
+  }
+}
+
+/**
+ * Typed wrapper around an NFT instance, to read what an account holds.
+ * Private notes are enumerable by their owner's wallet; public ownership is
+ * only stored per token id, so it is checked for the ids the caller knows of.
+ */
+export class NFTClient {
+  private constructor(
+    private readonly context: NFTClientContext,
+    private readonly contract: NFTContract,
+  ) {}
+
+  /**
+   * Connects to a deployed NFT, registering it in the wallet
+   * @param context - The wallet, node and acting account
+   * @param address - The address of the NFT instance
+   * @returns A client connected to the instance
+   */
+  static async connect(
+    context: NFTClientContext,
+    address: AztecAddress,
+  ): Promise<NFTClient> {
+    const { wallet, node } = context;
+    const instance = await node.getContract(address);
+    if (!instance) {
+      throw new Error(`No contract instance found at ${address.toString()}`);
+    }
+    await wallet.registerContract(instance, NFTContractArtifact);
+    const contract = await NFTContract.at(address, wallet);
+
+    return new NFTClient(context, contract);
+  }
+
+  get address(): AztecAddress {
+    return this.contract.address;
+  }
+
+  get from(): AztecAddress {
+    return this.context.from;
+  }
+
+  /**
+   * Returns a client acting as another account of the same wallet
+   * @param from - The account to act as
+   */
+  withSender(from: AztecAddress): NFTClient {
+    return new NFTClient({ ...this.context, from }, this.contract);
+  }
+
+  private get methods() {
+    return this.contract.withWallet(this.context.wallet).methods;
+  }
+
+  /**
+   * Reads the name and symbol of the collection
+   */
+  async getMetadata(): Promise<{ name: string; symbol: string }> {
+    const [name, symbol] = await Promise.all([
+      this.methods.public_get_name().simulate({ from: this.from }),
+      this.methods.public_get_symbol().simulate({ from: this.from }),
+    ]);
+    return {
+      name: readFieldCompressedString(name),
+      symbol: readFieldCompressedString(symbol),
+    };
+  }
+
+  /**
+   * Lists the token ids an account holds privately, across every page
+   * @param owner - optional - The account, whose notes the wallet must see, the sender by default
+   */
+  async *listPrivateNfts(
+    owner: AztecAddress = this.from,
+  ): AsyncGenerator<bigint> {
+    yield* listPrivateNfts(
+      this.contract.withWallet(this.context.wallet),
+      owner,
+      this.from,
+    );
+  }
+
+  /**
+   * @returns The public owner of a token, the zero address if none
+   */
+  async publicOwnerOf(tokenId: bigint): Promise<AztecAddress> {
+    return this.methods.public_owner_of(tokenId).simulate({ from: this.from });
+  }
+
+  /**
+   * Lists everything an account holds: its private NFTs, then the token ids
+   * among `tokenIds` it publicly owns. A token held both ways is listed once,
+   * as private.
+   * @param owner - optional - The account, the sender by default
+   * @param tokenIds - optional - The ids to check public ownership of
+   */
+  async *listNfts(
+    owner: AztecAddress = this.from,
+    tokenIds: Iterable<bigint> = [],
+  ): AsyncGenerator<NftHolding> {
+    const seen = new Set<bigint>();
+    for await (const tokenId of this.listPrivateNfts(owner)) {
+      seen.add(tokenId);
+      yield { tokenId, visibility: "private" };
+    }
+    for (const tokenId of tokenIds) {
+      if (seen.has(tokenId)) {
+        continue;
+      }
+      seen.add(tokenId);
+      if ((await this.publicOwnerOf(tokenId)).equals(owner)) {
+        yield { tokenId, visibility: "public" };
+      }
+    }
+  }
+
+  /**
+   * Collects `listNfts` into the ids held privately and publicly
+   * @param owner - optional - The account, the sender by default
+   * @param tokenIds - optional - The ids to check public ownership of
+   */
+  async getHoldings(
+    owner: AztecAddress = this.from,
+    tokenIds: Iterable<bigint> = [],
+  ): Promise<Record<NftVisibility, bigint[]>> {
+    const holdings: Record<NftVisibility, bigint[]> = {
+      private: [],
+      public: [],
+    };
+    for await (const { tokenId, visibility } of this.listNfts(
+      owner,
+      tokenIds,
+    )) {
+      holdings[visibility].push(tokenId);
+    }
+    return holdings;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { FakeAztecNode, FakeWallet, type FakeCall } from "./fakes.js";
+import { NFTClient } from "./nft_client.js";
+
+describe("NFTClient (fake node)", () => {
+  let node: FakeAztecNode;
+  let wallet: FakeWallet;
+  let owner: AztecAddress;
+  let nft: NFTClient;
+
+  beforeEach(async () => {
+    node = new FakeAztecNode();
+    wallet = new FakeWallet(node);
+    owner = await AztecAddress.random();
+    const { address } = await node.addContract();
+    nft = await NFTClient.connect(
+      { wallet: wallet, node: node, from: owner },
+      address,
+    );
+
+    // Two full pages, then a page padded with placeholders
+    const pages = [
+      [[1n, 2n], true],
+      [[3n, 4n], true],
+      [[5n, 0n], false],
+    ];
+    wallet.onSimulate(
+      "get_private_nfts",
+      ({ args: [, page] }: FakeCall) => pages[page as number],
+    );
+  });
+
+  it("walks every page of private NFTs, without placeholders", async () => {
+    const ids: bigint[] = [];
+    for await (const id of nft.listPrivateNfts()) {
+      ids.push(id);
+    }
+
+    expect(ids).toStrictEqual([1n, 2n, 3n, 4n, 5n]);
+    expect(wallet.simulated.map(({ args }) => args)).toStrictEqual([
+      [owner, 0],
+      [owner, 1],
+      [owner, 2],
+    ]);
+  });
+
+  it("merges private holdings with public ownership", async () => {
+    const other = await AztecAddress.random();
+    const owners = new Map([
+      [7n, owner],
+      [8n, other],
+    ]);
+    wallet.onSimulate(
+      "public_owner_of",
+      ({ args: [tokenId] }: FakeCall) =>
+        owners.get((tokenId as Fr).toBigInt()) ?? AztecAddress.ZERO,
+    );
+
+    expect(await nft.getHoldings(owner, [2n, 7n, 8n, 9n])).toStrictEqual({
+      private: [1n, 2n, 3n, 4n, 5n],
+      public: [7n],
+    });
+    // Token 2 is held privately, so its public owner isn't read
+    expect(
+      wallet.simulated
+        .filter(({ name }) => name === "public_owner_of")
+        .map(({ args }) => args),
+    ).toStrictEqual([[new Fr(7n)], [new Fr(8n)], [new Fr(9n)]]);
+  });
+});
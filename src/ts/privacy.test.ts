@@ -0,0 +1,80 @@
+import { describe, it, beforeEach, afterEach } from "vitest";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { createActors, deleteActors, type Actor } from "./utils.js";
+import { GovernanceClient, VoteChoice } from "./governance_client.js";
+import {
+  expectCannotDecrypt,
+  expectCannotDecryptAfter,
+  expectTxDoesNotReveal,
+} from "./privacy.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+describe("Governance privacy", () => {
+  let node: AztecNode;
+  let actors: Record<"alice" | "bob" | "carol", Actor>;
+  let alice: Actor;
+  let bob: Actor;
+  let carol: Actor;
+  let adminGov: GovernanceClient;
+  let memberGov: GovernanceClient;
+
+  beforeEach(async () => {
+    node = createAztecNodeClient(NODE_URL);
+    actors = await createActors(["alice", "bob", "carol"]);
+    ({ alice, bob, carol } = actors);
+
+    adminGov = await GovernanceClient.deploy(
+      { wallet: alice.wallet, node, from: alice.address },
+      { admin: alice.address },
+    );
+    await adminGov.addMember(bob.address);
+    memberGov = await GovernanceClient.join(
+      { wallet: bob.wallet, node, from: bob.address },
+      adminGov.address,
+      { sender: alice.address },
+    );
+
+    const action = {
+      token: AztecAddress.ZERO,
+      amount: 10n,
+      recipient: bob.address,
+    };
+    await adminGov.createProposal(action);
+  });
+
+  afterEach(async () => {
+    await deleteActors(actors);
+  });
+
+  it("outsiders cannot decrypt governance notes", async () => {
+    await expectCannotDecrypt(carol.wallet, node, adminGov.address);
+  });
+
+  it("votes do not reveal the voter", async () => {
+    const receipt = await memberGov.castVote(0n, VoteChoice.For);
+
+    await expectTxDoesNotReveal(node, receipt.txHash, [bob.address]);
+  });
+
+  // Tracked failure: the governance keys are the instance's own and are not
+  // rotated on removal, so a removed member keeps decrypting every note created
+  // with them afterwards. `it.fails` turns red once this passes, to drop it then.
+  it.fails("removed members cannot decrypt new notes", async () => {
+    const { blockNumber } = await adminGov.removeMember(bob.address);
+
+    await adminGov.createProposal({
+      token: AztecAddress.ZERO,
+      amount: 20n,
+      recipient: alice.address,
+    });
+
+    await expectCannotDecryptAfter(
+      bob.wallet,
+      node,
+      adminGov.address,
+      blockNumber!,
+    );
+  });
+});
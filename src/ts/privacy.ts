@@ -0,0 +1,105 @@
+import { expect } from "vitest";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type ContractArtifact } from "@aztec/aztec.js/abi";
+import { type TxHash } from "@aztec/aztec.js/tx";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { NoteStatus, type UniqueNote } from "@aztec/stdlib/note";
+import { GovernanceContractArtifact } from "../artifacts/Governance.js";
+
+/**
+ * Returns every note of a contract the wallet can decrypt, nullified ones included.
+ * The contract is registered with its public instance and artifact, without any
+ * secret key, i.e. everything an outsider can get hold of.
+ * @param wallet - The wallet to look through
+ * @param node - The node to fetch the contract instance from
+ * @param contract - The address of the contract
+ * @param artifact - optional - The contract artifact, Governance by default
+ * @returns The notes the wallet decrypted
+ */
+export async function getDecryptableNotes(
+  wallet: TestWallet,
+  node: AztecNode,
+  contract: AztecAddress,
+  artifact: ContractArtifact = GovernanceContractArtifact,
+): Promise<UniqueNote[]> {
+  const instance = await node.getContract(contract);
+  if (!instance) {
+    throw new Error(`No contract instance found at ${contract.toString()}`);
+  }
+  await wallet.registerContract(instance, artifact);
+
+  return wallet.getNotes({
+    contractAddress: contract,
+    status: NoteStatus.ACTIVE_OR_NULLIFIED,
+  });
+}
+
+/**
+ * Expects the wallet not to decrypt a single note of the contract
+ * @param wallet - The wallet of the outsider
+ * @param node - The node to fetch the contract instance from
+ * @param contract - The address of the contract
+ * @param artifact - optional - The contract artifact, Governance by default
+ */
+export async function expectCannotDecrypt(
+  wallet: TestWallet,
+  node: AztecNode,
+  contract: AztecAddress,
+  artifact?: ContractArtifact,
+) {
+  const notes = await getDecryptableNotes(wallet, node, contract, artifact);
+  expect(notes).toHaveLength(0);
+}
+
+/**
+ * Expects the wallet not to decrypt any note of the contract created after a block,
+ * e.g. once its account was removed from the governance
+ * @param wallet - The wallet of the former member
+ * @param node - The node to fetch the contract instance and receipts from
+ * @param contract - The address of the contract
+ * @param blockNumber - The last block the wallet was allowed to read
+ * @param artifact - optional - The contract artifact, Governance by default
+ */
+export async function expectCannotDecryptAfter(
+  wallet: TestWallet,
+  node: AztecNode,
+  contract: AztecAddress,
+  blockNumber: number,
+  artifact?: ContractArtifact,
+) {
+  const notes = await getDecryptableNotes(wallet, node, contract, artifact);
+  const createdAfter = [];
+  for (const note of notes) {
+    const receipt = await node.getTxReceipt(note.txHash);
+    if ((receipt.blockNumber ?? 0) > blockNumber) {
+      createdAfter.push(note);
+    }
+  }
+  expect(createdAfter).toHaveLength(0);
+}
+
+/**
+ * Expects none of the values to appear in clear in the effects of a tx: note
+ * hashes, nullifiers, private and public logs and public data writes
+ * @param node - The node to fetch the tx effect from
+ * @param txHash - The hash of the tx
+ * @param values - The values that must stay private, e.g. the voter address
+ */
+export async function expectTxDoesNotReveal(
+  node: AztecNode,
+  txHash: TxHash,
+  values: (AztecAddress | Fr)[],
+) {
+  const effect = await node.getTxEffect(txHash);
+  expect(effect).toBeDefined();
+
+  const serialized = effect!.data.toBuffer();
+  for (const value of values) {
+    expect(
+      serialized.includes(value.toBuffer()),
+      `${value.toString()} is revealed by tx ${txHash.toString()}`,
+    ).toBe(false);
+  }
+}
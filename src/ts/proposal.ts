@@ -0,0 +1,197 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { type Fr } from "@aztec/aztec.js/fields";
+
+/**
+ * Transfer of an amount of a token, executed with `withdraw`
+ */
+export interface TokenTransferAction {
+  kind?: "token";
+  token: AztecAddress;
+  amount: bigint;
+  recipient: AztecAddress;
+}
+
+/**
+ * Transfer of an NFT, executed with `withdraw_nft`
+ */
+export interface NftTransferAction {
+  kind: "nft";
+  nft: AztecAddress;
+  tokenId: bigint;
+  recipient: AztecAddress;
+}
+
+/**
+ * Treasury transfer a proposal executes once it passes
+ */
+export type ProposalAction = TokenTransferAction | NftTransferAction;
+
+// Mirrors PROPOSAL_NFT in proposal_note.nr, token proposals being 0
+const PROPOSAL_NFT = 1;
+
+/**
+ * Decoded view of a `ProposalNote`
+ * @param startBlock - The block voting opens at
+ * @param endBlock - The last block votes are accepted at
+ * @param final - Whether the proposal passed and can be executed
+ * @param closed - Whether the outcome was computed after the voting window
+ * @param executed - Whether the action was executed
+ */
+export interface Proposal {
+  id: bigint;
+  action: ProposalAction;
+  votesFor: bigint;
+  votesAgainst: bigint;
+  startBlock: number;
+  endBlock: number;
+  final: boolean;
+  closed: boolean;
+  executed: boolean;
+}
+
+/**
+ * Lifecycle of a proposal. A proposal whose voting window is over stays
+ * "pending_close" until a member closes it, which computes its outcome.
+ */
+export type ProposalStatus =
+  | "active"
+  | "pending_close"
+  | "passed"
+  | "rejected"
+  | "executed";
+
+/**
+ * Derives the lifecycle status of a proposal
+ * @param proposal - The decoded proposal
+ * @param blockNumber - optional - The current block, to tell an expired proposal from an active one
+ * @returns The proposal status
+ */
+export const getProposalStatus = (
+  proposal: Proposal,
+  blockNumber?: number,
+): ProposalStatus => {
+  if (proposal.executed) return "executed";
+  if (proposal.final) return "passed";
+  if (proposal.closed) return "rejected";
+  // The outcome depends on the member count when `close_proposal` runs
+  if (blockNumber !== undefined && blockNumber > proposal.endBlock) {
+    return "pending_close";
+  }
+  return "active";
+};
+
+/**
+ * Encodes a token transfer as the `create_proposal` arguments
+ * @param action - The action to encode
+ * @returns The token, amount and recipient arguments, in order
+ */
+export const encodeProposalAction = (
+  action: TokenTransferAction,
+): [AztecAddress, bigint, AztecAddress] => [
+  action.token,
+  action.amount,
+  action.recipient,
+];
+
+/**
+ * Encodes an NFT transfer as the `create_nft_proposal` arguments
+ * @param action - The action to encode
+ * @returns The NFT, token id and recipient arguments, in order
+ */
+export const encodeNftProposalAction = (
+  action: NftTransferAction,
+): [AztecAddress, bigint, AztecAddress] => [
+  action.nft,
+  action.tokenId,
+  action.recipient,
+];
+
+/**
+ * The fields of a `ProposalNote`, as a simulation decodes them or as raw fields
+ */
+export interface ProposalNoteFields {
+  proposal_id: bigint;
+  kind: bigint | number;
+  token: AztecAddress | bigint;
+  amount: bigint;
+  token_id: bigint;
+  recipient: AztecAddress | bigint;
+  votes_for: bigint;
+  votes_against: bigint;
+  start_block: bigint;
+  end_block: bigint;
+  final: boolean | bigint;
+  closed: boolean | bigint;
+  executed: boolean | bigint;
+}
+
+/**
+ * Field order of `ProposalNote` in proposal_note.nr, every field packing into one
+ */
+export const PROPOSAL_NOTE_FIELDS = [
+  "gov_contract",
+  "proposal_id",
+  "kind",
+  "token",
+  "amount",
+  "token_id",
+  "recipient",
+  "votes_for",
+  "votes_against",
+  "start_block",
+  "end_block",
+  "final",
+  "closed",
+  "executed",
+  "randomness",
+] as const;
+
+// Addresses nested in a struct come back decoded, but be lenient with raw fields
+const toAddress = (value: AztecAddress | bigint) =>
+  value instanceof AztecAddress ? value : AztecAddress.fromBigInt(value);
+
+// Booleans come back decoded, but be lenient with raw fields
+const toBoolean = (value: boolean | bigint) =>
+  typeof value === "boolean" ? value : value !== 0n;
+
+/**
+ * Decodes the raw `ProposalNote` returned by `_view_proposal`
+ * @param note - The note as returned by the simulation
+ * @returns The decoded proposal
+ */
+export const decodeProposal = (note: ProposalNoteFields): Proposal => ({
+  id: BigInt(note.proposal_id),
+  action:
+    Number(note.kind) === PROPOSAL_NFT
+      ? {
+          kind: "nft",
+          nft: toAddress(note.token),
+          tokenId: BigInt(note.token_id),
+          recipient: toAddress(note.recipient),
+        }
+      : {
+          kind: "token",
+          token: toAddress(note.token),
+          amount: BigInt(note.amount),
+          recipient: toAddress(note.recipient),
+        },
+  votesFor: BigInt(note.votes_for),
+  votesAgainst: BigInt(note.votes_against),
+  startBlock: Number(note.start_block),
+  endBlock: Number(note.end_block),
+  final: toBoolean(note.final),
+  closed: toBoolean(note.closed),
+  executed: toBoolean(note.executed),
+});
+
+/**
+ * Decodes the packed fields of a `ProposalNote`
+ * @param items - The note fields, as returned by `getNotes`
+ * @returns The decoded proposal
+ */
+export const decodeProposalNote = (items: Fr[]): Proposal =>
+  decodeProposal(
+    Object.fromEntries(
+      PROPOSAL_NOTE_FIELDS.map((field, i) => [field, items[i].toBigInt()]),
+    ) as Record<(typeof PROPOSAL_NOTE_FIELDS)[number], bigint>,
+  );
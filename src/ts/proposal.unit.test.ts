@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { getFunctionArtifactByName } from "@aztec/stdlib/abi";
+import { GovernanceContractArtifact } from "../artifacts/Governance.js";
+import { decodeProposalNote, PROPOSAL_NOTE_FIELDS } from "./proposal.js";
+
+describe("Proposal notes", () => {
+  it("decodes the note fields in the order of the contract", () => {
+    // `_view_proposal` returns the note itself
+    const [note] = getFunctionArtifactByName(
+      GovernanceContractArtifact,
+      "_view_proposal",
+    ).returnTypes;
+    expect(
+      note.kind === "struct" && note.fields.map(({ name }) => name),
+    ).toStrictEqual([...PROPOSAL_NOTE_FIELDS]);
+
+    const items = PROPOSAL_NOTE_FIELDS.map((_, i) => new Fr(i));
+    expect(decodeProposalNote(items)).toMatchObject({
+      id: 1n,
+      votesFor: 7n,
+      votesAgainst: 8n,
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readdirSync } from "fs";
+import { join } from "path";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { setupTestSuite } from "./utils.js";
+import {
+  loadScenario,
+  parseScenario,
+  runScenario,
+  ScenarioError,
+} from "./scenario.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+const SCENARIOS_DIR = "scenarios";
+
+describe("parseScenario", () => {
+  it("rejects unknown actions", () => {
+    expect(() =>
+      parseScenario(`
+name: typo
+actors: [alice]
+steps:
+  - action: addMembers
+    from: alice
+    member: alice
+`),
+    ).toThrow(ScenarioError);
+  });
+
+  it("rejects actions with missing or invalid fields", () => {
+    expect(() =>
+      parseScenario(`
+name: bad vote
+actors: [alice]
+steps:
+  - action: vote
+    from: alice
+    proposal: 0
+    choice: maybe
+`),
+    ).toThrow("bad vote: step 1 (vote) has a missing or invalid choice");
+  });
+
+  it("rejects unknown or invalid expectations", () => {
+    const withExpect = (expect: string) => `
+name: bad expect
+actors: [alice]
+steps:
+  - expect:
+${expect}
+`;
+    expect(() => parseScenario(withExpect("      member: [alice]"))).toThrow(
+      'bad expect: step 1 expects an unknown outcome "member"',
+    );
+    expect(() => parseScenario(withExpect("      memberCount: two"))).toThrow(
+      "bad expect: step 1 expects an invalid memberCount",
+    );
+    expect(() =>
+      parseScenario(withExpect("      proposal: { id: 0, status: done }")),
+    ).toThrow("bad expect: step 1 expects an invalid proposal");
+    expect(() =>
+      parseScenario(
+        withExpect("      balances: { alice: { usdc: { privat: 1 } } }"),
+      ),
+    ).toThrow("bad expect: step 1 expects an invalid balances");
+  });
+
+  it("accepts JSON", () => {
+    const scenario = parseScenario(
+      JSON.stringify({ name: "json", actors: ["alice"], steps: [] }),
+    );
+    expect(scenario.actors).toStrictEqual(["alice"]);
+  });
+});
+
+describe("Scenarios", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let accounts: AztecAddress[];
+
+  beforeEach(async () => {
+    ({ store, wallet, accounts } = await setupTestSuite());
+    node = createAztecNodeClient(NODE_URL);
+  });
+
+  afterEach(async () => {
+    await store.delete();
+  });
+
+  const files = readdirSync(SCENARIOS_DIR).filter((file) =>
+    /\.(ya?ml|json)$/.test(file),
+  );
+
+  it.each(files)("%s", async (file) => {
+    const scenario = await loadScenario(join(SCENARIOS_DIR, file));
+    const report = await runScenario(scenario, { wallet, node, accounts });
+
+    const failed = report.steps.find((step) => step.status === "failed");
+    expect(
+      report.passed,
+      failed &&
+        `step ${failed.index + 1} (${failed.description}): ${failed.error}`,
+    ).toBe(true);
+  });
+
+  it("reports the failing step and skips the rest", async () => {
+    const scenario = parseScenario(`
+name: wrong expectation
+actors: [alice, bob]
+deployments:
+  - governance: gov
+    admin: alice
+steps:
+  - expect:
+      members: [alice, bob]
+  - action: addMember
+    from: alice
+    member: bob
+`);
+    const report = await runScenario(scenario, { wallet, node, accounts });
+
+    expect(report.passed).toBe(false);
+    expect(report.steps.map((step) => step.status)).toStrictEqual([
+      "passed",
+      "failed",
+      "skipped",
+    ]);
+    expect(report.steps[1].error).toMatch(/members: expected alice, bob/);
+  });
+});
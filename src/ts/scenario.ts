@@ -0,0 +1,704 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Contract } from "@aztec/aztec.js/contracts";
+import { TokenContract, TokenContractArtifact } from "../artifacts/Token.js";
+import {
+  getProposalStatus,
+  GovernanceClient,
+  parseVoteChoice,
+  type GovernanceConfig,
+  type ProposalStatus,
+} from "./governance_client.js";
+import { advanceBlocks } from "./blocks.js";
+import { type ProvingWallet } from "./token_client.js";
+
+/**
+ * Amounts can be written as numbers or, past 2^53, as strings
+ */
+export type ScenarioAmount = number | string;
+
+/**
+ * A Governance instance, with its admin and the members it starts with
+ */
+export interface GovernanceDeployment {
+  governance: string;
+  admin: string;
+  members?: string[];
+  config?: GovernanceConfig;
+}
+
+/**
+ * A Token with a minter, and the private balances minted at deployment
+ */
+export interface TokenDeployment {
+  token: string;
+  minter: string;
+  mint?: Record<string, ScenarioAmount>;
+}
+
+export type ScenarioDeployment = GovernanceDeployment | TokenDeployment;
+
+/**
+ * Fields every action takes
+ * @param from - The actor sending the tx
+ * @param governance - optional - The governance to act on, the first one deployed by default
+ * @param reverts - optional - A part of the revert message the tx is expected to fail with
+ */
+interface BaseAction {
+  from: string;
+  governance?: string;
+  reverts?: string;
+}
+
+export type ScenarioAction =
+  | (BaseAction & { action: "addMember"; member: string })
+  | (BaseAction & { action: "removeMember"; member: string })
+  | (BaseAction & {
+      action: "propose";
+      token: string;
+      amount: ScenarioAmount;
+      recipient: string;
+    })
+  | (BaseAction & {
+      action: "vote";
+      proposal: number;
+      choice: "for" | "against";
+    })
+  | (BaseAction & { action: "close"; proposal: number })
+  | (BaseAction & { action: "withdraw"; proposal: number })
+  | { action: "advanceBlocks"; blocks: number };
+
+/**
+ * Balances a holder is expected to have, omitted ones are not checked
+ */
+export interface ExpectedBalance {
+  private?: ScenarioAmount;
+  public?: ScenarioAmount;
+}
+
+/**
+ * Outcomes checked against the current state, omitted ones are not checked
+ * @param governance - optional - The governance to check, the first one deployed by default
+ * @param members - optional - The exact set of members, in any order
+ * @param proposal - optional - Fields of a proposal
+ * @param balances - optional - Token balances by holder (actor or governance) and token
+ */
+export interface ScenarioExpectation {
+  governance?: string;
+  members?: string[];
+  memberCount?: number;
+  admin?: string;
+  proposalCount?: number;
+  proposal?: {
+    id: number;
+    status?: ProposalStatus;
+    votesFor?: number;
+    votesAgainst?: number;
+  };
+  balances?: Record<string, Record<string, ExpectedBalance>>;
+}
+
+export type ScenarioStep = ScenarioAction | { expect: ScenarioExpectation };
+
+/**
+ * A governance test case: who takes part, what is deployed, what they do and
+ * what should come out of it
+ * @param actors - The actor names, mapped to the sandbox accounts in order
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  actors: string[];
+  deployments?: ScenarioDeployment[];
+  steps: ScenarioStep[];
+}
+
+/**
+ * A scenario that can't be parsed or refers to something it doesn't define
+ */
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+export type StepStatus = "passed" | "failed" | "skipped";
+
+/**
+ * Outcome of a deployment or step, in the order they run
+ */
+export interface StepResult {
+  index: number;
+  description: string;
+  status: StepStatus;
+  error?: string;
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  steps: StepResult[];
+}
+
+/**
+ * @param wallet - The wallet holding the actor accounts
+ * @param node - The node to read blocks and contracts from
+ * @param accounts - The accounts actors are mapped to, in order
+ * @param onStep - optional - Called as soon as each step is done
+ */
+export interface ScenarioContext {
+  wallet: ProvingWallet;
+  node: AztecNode;
+  accounts: AztecAddress[];
+  onStep?: (result: StepResult) => void;
+}
+
+type Fields = Record<string, unknown>;
+type FieldCheck = (value: unknown) => boolean;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNumber: FieldCheck = (value) => typeof value === "number";
+const isAmount: FieldCheck = (value) => isString(value) || isNumber(value);
+const isNames = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+const optional =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    value === undefined || check(value);
+
+// The fields of every action, and what they must hold
+const ACTION_FIELDS: Record<
+  ScenarioAction["action"],
+  Record<string, FieldCheck>
+> = {
+  addMember: { member: isString },
+  removeMember: { member: isString },
+  propose: { token: isString, amount: isAmount, recipient: isString },
+  vote: {
+    proposal: isNumber,
+    choice: (value) => value === "for" || value === "against",
+  },
+  close: { proposal: isNumber },
+  withdraw: { proposal: isNumber },
+  advanceBlocks: { blocks: isNumber },
+};
+
+const BASE_ACTION_FIELDS: Record<string, FieldCheck> = {
+  from: isString,
+  governance: optional(isString),
+  reverts: optional(isString),
+};
+
+const DEPLOYMENT_FIELDS: Record<string, FieldCheck>[] = [
+  {
+    governance: isString,
+    admin: isString,
+    members: optional(isNames),
+    config: optional(isFields),
+  },
+  { token: isString, minter: isString, mint: optional(isFields) },
+];
+
+// Returns the first field failing its check
+const invalidField = (fields: Fields, checks: Record<string, FieldCheck>) =>
+  Object.entries(checks).find(([name, check]) => !check(fields[name]))?.[0];
+
+// Returns the first field without a check
+const unknownField = (fields: Fields, checks: Record<string, FieldCheck>) =>
+  Object.keys(fields).find((name) => !Object.hasOwn(checks, name));
+
+// A mapping with only the given fields, each passing its check
+const hasOnlyFields =
+  (checks: Record<string, FieldCheck>): FieldCheck =>
+  (value) =>
+    isFields(value) &&
+    !invalidField(value, checks) &&
+    !unknownField(value, checks);
+
+const PROPOSAL_STATUSES: ProposalStatus[] = [
+  "active",
+  "pending_close",
+  "passed",
+  "rejected",
+  "executed",
+];
+
+const EXPECTED_BALANCE_FIELDS: Record<keyof ExpectedBalance, FieldCheck> = {
+  private: optional(isAmount),
+  public: optional(isAmount),
+};
+
+// Balances by holder, then by token
+const isExpectedBalances: FieldCheck = (value) =>
+  isFields(value) &&
+  Object.values(value).every(
+    (byToken) =>
+      isFields(byToken) &&
+      Object.values(byToken).every(hasOnlyFields(EXPECTED_BALANCE_FIELDS)),
+  );
+
+// The outcomes an expect step can check, and what they must hold
+const EXPECTATION_FIELDS: Record<keyof ScenarioExpectation, FieldCheck> = {
+  governance: optional(isString),
+  members: optional(isNames),
+  memberCount: optional(isNumber),
+  admin: optional(isString),
+  proposalCount: optional(isNumber),
+  proposal: optional(
+    hasOnlyFields({
+      id: isNumber,
+      status: optional(
+        (value) =>
+          isString(value) &&
+          PROPOSAL_STATUSES.some((status) => status === value),
+      ),
+      votesFor: optional(isNumber),
+      votesAgainst: optional(isNumber),
+    }),
+  ),
+  balances: optional(isExpectedBalances),
+};
+
+const isActionName = (value: unknown): value is ScenarioAction["action"] =>
+  typeof value === "string" && Object.hasOwn(ACTION_FIELDS, value);
+
+const isDeploymentFields = (
+  value: unknown,
+): value is Fields & ScenarioDeployment =>
+  isFields(value) &&
+  DEPLOYMENT_FIELDS.some((checks) => !invalidField(value, checks));
+
+/**
+ * Checks the shape of a step
+ * @param step - The step as parsed
+ * @param where - The scenario name and step number, for errors
+ * @returns The step
+ */
+function parseStep(step: unknown, where: string): ScenarioStep {
+  if (!isFields(step)) {
+    throw new ScenarioError(`${where} must be a mapping`);
+  }
+  if ("expect" in step) {
+    const { expect } = step;
+    if (!isFields(expect)) {
+      throw new ScenarioError(`${where} expects a mapping of outcomes`);
+    }
+    const unknown = unknownField(expect, EXPECTATION_FIELDS);
+    if (unknown) {
+      throw new ScenarioError(
+        `${where} expects an unknown outcome "${unknown}"`,
+      );
+    }
+    const invalid = invalidField(expect, EXPECTATION_FIELDS);
+    if (invalid) {
+      throw new ScenarioError(`${where} expects an invalid ${invalid}`);
+    }
+    return { expect };
+  }
+  const { action } = step;
+  if (!isActionName(action)) {
+    throw new ScenarioError(
+      `${where} has no expect and an unknown action "${action}"`,
+    );
+  }
+  const invalid = invalidField(step, {
+    ...(action === "advanceBlocks" ? {} : BASE_ACTION_FIELDS),
+    ...ACTION_FIELDS[action],
+  });
+  if (invalid) {
+    throw new ScenarioError(
+      `${where} (${action}) has a missing or invalid ${invalid}`,
+    );
+  }
+  return step as ScenarioAction;
+}
+
+/**
+ * Parses and checks the shape of a scenario
+ * @param source - The scenario, as YAML or JSON (JSON being valid YAML)
+ * @returns The scenario
+ */
+export function parseScenario(source: string): Scenario {
+  let scenario: unknown;
+  try {
+    scenario = parseYaml(source);
+  } catch (error) {
+    throw new ScenarioError(`Invalid scenario: ${(error as Error).message}`);
+  }
+
+  if (!isFields(scenario) || typeof scenario.name !== "string") {
+    throw new ScenarioError("A scenario needs a name");
+  }
+  const { name, description, actors, deployments = [], steps } = scenario;
+  if (!isNames(actors)) {
+    throw new ScenarioError(`${name}: actors must be a list of names`);
+  }
+  if (!Array.isArray(steps)) {
+    throw new ScenarioError(`${name}: steps must be a list`);
+  }
+  if (!Array.isArray(deployments) || !deployments.every(isDeploymentFields)) {
+    throw new ScenarioError(
+      `${name}: deployments are either a governance with an admin or a token with a minter`,
+    );
+  }
+  return {
+    name,
+    ...(typeof description === "string" && { description }),
+    actors,
+    deployments,
+    steps: steps.map((step, i) => parseStep(step, `${name}: step ${i + 1}`)),
+  };
+}
+
+/**
+ * Reads a scenario file, `.yaml`, `.yml` or `.json`
+ * @param path - The path of the file
+ * @returns The scenario
+ */
+export async function loadScenario(path: string): Promise<Scenario> {
+  if (![".yaml", ".yml", ".json"].includes(extname(path))) {
+    throw new ScenarioError(`${path}: scenarios are YAML or JSON files`);
+  }
+  return parseScenario(await readFile(path, "utf8"));
+}
+
+// Actions can name a governance too, but only deployments have an admin or minter
+const isDeployment = (
+  step: ScenarioDeployment | ScenarioStep,
+): step is ScenarioDeployment => "admin" in step || "minter" in step;
+
+/**
+ * Short human-readable form of a deployment or step, used in reports
+ */
+export function describeStep(step: ScenarioDeployment | ScenarioStep): string {
+  if (isDeployment(step)) {
+    return "governance" in step
+      ? `deploy governance ${step.governance} (admin ${step.admin})`
+      : `deploy token ${step.token} (minter ${step.minter})`;
+  }
+  if ("expect" in step) {
+    return `expect ${Object.keys(step.expect)
+      .filter((key) => key !== "governance")
+      .join(", ")}`;
+  }
+
+  let description: string;
+  switch (step.action) {
+    case "addMember":
+      description = `${step.from} adds ${step.member}`;
+      break;
+    case "removeMember":
+      description = `${step.from} removes ${step.member}`;
+      break;
+    case "propose":
+      description = `${step.from} proposes sending ${step.amount} ${step.token} to ${step.recipient}`;
+      break;
+    case "vote":
+      description = `${step.from} votes ${step.choice} on proposal ${step.proposal}`;
+      break;
+    case "close":
+      description = `${step.from} closes proposal ${step.proposal}`;
+      break;
+    case "withdraw":
+      description = `${step.from} executes proposal ${step.proposal}`;
+      break;
+    case "advanceBlocks":
+      return `advance ${step.blocks} blocks`;
+  }
+  return step.reverts
+    ? `${description} (reverts with "${step.reverts}")`
+    : description;
+}
+
+/**
+ * Runs a scenario against a node, one step after the other. The first failing
+ * step skips the rest, as they would only report follow-up failures.
+ * @param scenario - The scenario to run
+ * @param context - The wallet, node and accounts to run it with
+ * @returns The result of every deployment and step
+ */
+export async function runScenario(
+  scenario: Scenario,
+  context: ScenarioContext,
+): Promise<ScenarioReport> {
+  const { wallet, node, accounts, onStep } = context;
+  if (scenario.actors.length > accounts.length) {
+    throw new ScenarioError(
+      `${scenario.name}: ${scenario.actors.length} actors but only ${accounts.length} accounts`,
+    );
+  }
+
+  const actors = new Map(
+    scenario.actors.map((name, i) => [name, accounts[i]] as const),
+  );
+  const governances = new Map<string, GovernanceClient>();
+  const tokens = new Map<string, TokenContract>();
+
+  const actor = (name: string): AztecAddress => {
+    const address = actors.get(name);
+    if (!address) {
+      throw new ScenarioError(`Unknown actor "${name}"`);
+    }
+    return address;
+  };
+
+  const governance = (name?: string): GovernanceClient => {
+    const gov = name ? governances.get(name) : [...governances.values()][0];
+    if (!gov) {
+      throw new ScenarioError(
+        name ? `Unknown governance "${name}"` : "No governance deployed",
+      );
+    }
+    return gov;
+  };
+
+  const token = (name: string): TokenContract => {
+    const contract = tokens.get(name);
+    if (!contract) {
+      throw new ScenarioError(`Unknown token "${name}"`);
+    }
+    return contract;
+  };
+
+  // Holders and recipients can be actors, governances or raw addresses
+  const address = (name: string): AztecAddress => {
+    if (name.startsWith("0x")) {
+      return AztecAddress.fromString(name);
+    }
+    return (
+      actors.get(name) ??
+      governances.get(name)?.address ??
+      tokens.get(name)?.address ??
+      actor(name)
+    );
+  };
+
+  const deploy = async (deployment: ScenarioDeployment) => {
+    if ("governance" in deployment) {
+      const admin = actor(deployment.admin);
+      const gov = await GovernanceClient.deploy(
+        { wallet, node, from: admin },
+        { admin, config: deployment.config },
+      );
+      for (const member of deployment.members ?? []) {
+        await gov.addMember(actor(member));
+      }
+      governances.set(deployment.governance, gov);
+    } else {
+      const minter = actor(deployment.minter);
+      const { address: tokenAddress } = await Contract.deploy(
+        wallet,
+        TokenContractArtifact,
+        [
+          deployment.token,
+          deployment.token.slice(0, 3).toUpperCase(),
+          18,
+          minter,
+          AztecAddress.ZERO,
+        ],
+        "constructor_with_minter",
+      )
+        .send({ from: minter })
+        .deployed();
+      const contract = await TokenContract.at(tokenAddress, wallet);
+      tokens.set(deployment.token, contract);
+
+      for (const [holder, amount] of Object.entries(deployment.mint ?? {})) {
+        await contract.methods
+          .mint_to_private(address(holder), BigInt(amount))
+          .send({ from: minter })
+          .wait();
+      }
+    }
+  };
+
+  const act = async (step: ScenarioAction) => {
+    if (step.action === "advanceBlocks") {
+      await advanceBlocks(wallet, node, accounts[0], step.blocks);
+      return;
+    }
+
+    const gov = governance(step.governance).withSender(actor(step.from));
+    const send = () => {
+      switch (step.action) {
+        case "addMember":
+          return gov.addMember(actor(step.member));
+        case "removeMember":
+          return gov.removeMember(actor(step.member));
+        case "propose":
+          return gov.createProposal({
+            token: tokens.get(step.token)?.address ?? address(step.token),
+            amount: BigInt(step.amount),
+            recipient: address(step.recipient),
+          });
+        case "vote":
+          return gov.castVote(step.proposal, parseVoteChoice(step.choice));
+        case "close":
+          return gov.closeProposal(step.proposal);
+        case "withdraw":
+          return gov.withdraw(step.proposal);
+      }
+    };
+
+    if (!step.reverts) {
+      await send();
+      return;
+    }
+    let error: Error | undefined;
+    try {
+      await send();
+    } catch (e) {
+      error = e as Error;
+    }
+    if (!error) {
+      throw new Error(`Expected a revert with "${step.reverts}"`);
+    }
+    if (!error.message.includes(step.reverts)) {
+      throw new Error(
+        `Expected a revert with "${step.reverts}", got: ${error.message}`,
+      );
+    }
+  };
+
+  const check = async (expectation: ScenarioExpectation) => {
+    const gov =
+      governances.size > 0 ? governance(expectation.governance) : undefined;
+    const mismatches: string[] = [];
+    const compare = (label: string, actual: unknown, expected: unknown) => {
+      if (String(actual) !== String(expected)) {
+        mismatches.push(`${label}: expected ${expected}, got ${actual}`);
+      }
+    };
+
+    if (expectation.members) {
+      const members = (await governance(expectation.governance).getMembers())
+        .map((member) => member.toString())
+        .sort();
+      const expected = expectation.members
+        .map((member) => actor(member).toString())
+        .sort();
+      if (members.join() !== expected.join()) {
+        const names = new Map(
+          [...actors].map(([name, addr]) => [addr.toString(), name]),
+        );
+        compare(
+          "members",
+          members.map((member) => names.get(member) ?? member).join(", "),
+          expectation.members.join(", "),
+        );
+      }
+    }
+    if (expectation.memberCount !== undefined) {
+      compare(
+        "member count",
+        await governance(expectation.governance).getMemberCount(),
+        expectation.memberCount,
+      );
+    }
+    if (expectation.admin !== undefined) {
+      compare(
+        "admin",
+        await governance(expectation.governance).getAdmin(),
+        actor(expectation.admin),
+      );
+    }
+    if (expectation.proposalCount !== undefined) {
+      compare(
+        "proposal count",
+        await governance(expectation.governance).getCurrentId(),
+        expectation.proposalCount,
+      );
+    }
+    if (expectation.proposal) {
+      const { id, status, votesFor, votesAgainst } = expectation.proposal;
+      const proposal = await governance(expectation.governance).getProposal(id);
+      if (status !== undefined) {
+        compare(
+          `proposal ${id} status`,
+          getProposalStatus(proposal, await node.getBlockNumber()),
+          status,
+        );
+      }
+      if (votesFor !== undefined) {
+        compare(`proposal ${id} votes for`, proposal.votesFor, votesFor);
+      }
+      if (votesAgainst !== undefined) {
+        compare(
+          `proposal ${id} votes against`,
+          proposal.votesAgainst,
+          votesAgainst,
+        );
+      }
+    }
+    for (const [holder, balances] of Object.entries(
+      expectation.balances ?? {},
+    )) {
+      const owner = address(holder);
+      // The treasury notes are only readable with the governance keys, and
+      // simulations must come from an account of the wallet
+      const from = actors.get(holder) ?? gov?.from ?? accounts[0];
+      for (const [name, expected] of Object.entries(balances)) {
+        const contract = token(name);
+        if (expected.private !== undefined) {
+          compare(
+            `${holder} private ${name}`,
+            await contract.methods.balance_of_private(owner).simulate({ from }),
+            BigInt(expected.private),
+          );
+        }
+        if (expected.public !== undefined) {
+          compare(
+            `${holder} public ${name}`,
+            await contract.methods.balance_of_public(owner).simulate({ from }),
+            BigInt(expected.public),
+          );
+        }
+      }
+    }
+
+    if (mismatches.length > 0) {
+      throw new Error(mismatches.join("; "));
+    }
+  };
+
+  const steps: (ScenarioDeployment | ScenarioStep)[] = [
+    ...(scenario.deployments ?? []),
+    ...scenario.steps,
+  ];
+  const results: StepResult[] = [];
+  let failed = false;
+
+  for (const [index, step] of steps.entries()) {
+    const result: StepResult = {
+      index,
+      description: describeStep(step),
+      status: "skipped",
+    };
+    if (!failed) {
+      try {
+        if (isDeployment(step)) {
+          await deploy(step);
+        } else if ("expect" in step) {
+          await check(step.expect);
+        } else {
+          await act(step);
+        }
+        result.status = "passed";
+      } catch (error) {
+        failed = true;
+        result.status = "failed";
+        result.error = (error as Error).message;
+      }
+    }
+    results.push(result);
+    onStep?.(result);
+  }
+
+  return { name: scenario.name, passed: !failed, steps: results };
+}
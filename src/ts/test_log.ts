@@ -0,0 +1,241 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type TxHash, TxStatus } from "@aztec/aztec.js/tx";
+import { SentTx } from "@aztec/aztec.js/contracts";
+import { type ExecutionPayload } from "@aztec/entrypoints/payload";
+import { type AztecAddress } from "@aztec/aztec.js/addresses";
+import { type ProvingWallet } from "./token_client.js";
+
+// Sandbox log lines worth showing for a failed test even without its tx hash
+const PROBLEM_PATTERN = /error|warn|revert|fail|dropped/i;
+
+/**
+ * A transaction sent by a test, as written to the tx log
+ * @param time - When it was sent, or when its final status was known
+ * @param test - optional - The test that sent it, e.g. "Governance > votes"
+ * @param calls - The functions it calls, in order
+ * @param txHash - optional - Missing if the wallet rejected it before sending
+ * @param status - "pending", "rejected" or the final `TxStatus`
+ * @param error - optional - The revert or rejection reason
+ */
+export interface TxLogEntry {
+  time: string;
+  test?: string;
+  from?: string;
+  calls: { to: string; function: string }[];
+  txHash?: string;
+  status: string;
+  error?: string;
+  blockNumber?: number;
+}
+
+/**
+ * A line of a sandbox log
+ * @param line - The line number, from 1
+ */
+export interface SandboxLogLine {
+  line: number;
+  text: string;
+}
+
+const appendEntry = (file: string, entry: TxLogEntry) => {
+  mkdirSync(dirname(file), { recursive: true });
+  appendFileSync(file, `${JSON.stringify(entry)}\n`);
+};
+
+/**
+ * Records every transaction a wallet sends in a JSONL file: one entry when it
+ * is sent or rejected, and one more every time a receipt shows a new status.
+ * Txs proven with `proveTx` are recorded when sent, or as rejected if proving fails.
+ * @param wallet - The wallet, its `sendTx`, `proveTx` and `getTxReceipt` are wrapped in place
+ * @param file - The tx log file, appended to
+ * @param getTestName - optional - The name of the running test
+ * @returns The wallet
+ */
+export function logTransactions<
+  W extends Wallet & Partial<Pick<ProvingWallet, "proveTx">>,
+>(
+  wallet: W,
+  file: string,
+  getTestName: () => string | undefined = () => undefined,
+): W {
+  const sendTx = wallet.sendTx.bind(wallet);
+  const proveTx = wallet.proveTx?.bind(wallet);
+  const getTxReceipt = wallet.getTxReceipt.bind(wallet);
+  const sent = new Map<string, TxLogEntry>();
+
+  const newEntry = (
+    exec: ExecutionPayload,
+    opts: { from?: AztecAddress },
+  ): TxLogEntry => ({
+    time: new Date().toISOString(),
+    test: getTestName(),
+    from: opts.from?.toString(),
+    calls: exec.calls.map((call) => ({
+      to: call.to.toString(),
+      function: call.name,
+    })),
+    status: "pending",
+  });
+  const logRejected = (entry: TxLogEntry, error: unknown) =>
+    appendEntry(file, {
+      ...entry,
+      status: "rejected",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  const record = async (
+    entry: TxLogEntry,
+    send: () => Promise<TxHash>,
+  ): Promise<TxHash> => {
+    try {
+      const txHash = await send();
+      entry.txHash = txHash.toString();
+      sent.set(entry.txHash, entry);
+      appendEntry(file, entry);
+      return txHash;
+    } catch (error: unknown) {
+      logRejected(entry, error);
+      throw error;
+    }
+  };
+
+  wallet.sendTx = async (exec, opts) =>
+    record(newEntry(exec, opts), () => sendTx(exec, opts));
+
+  if (proveTx) {
+    wallet.proveTx = async (exec, opts) => {
+      const entry = newEntry(exec, opts);
+      try {
+        const tx = await proveTx(exec, opts);
+        const send = tx.send.bind(tx);
+        // Receipts are read through the wallet, whose `getTxReceipt` logs them
+        tx.send = () =>
+          new SentTx(wallet, () => record(entry, () => send().getTxHash()));
+        return tx;
+      } catch (error: unknown) {
+        logRejected(entry, error);
+        throw error;
+      }
+    };
+  }
+
+  wallet.getTxReceipt = async (txHash) => {
+    const receipt = await getTxReceipt(txHash);
+    const entry = sent.get(txHash.toString());
+    // `wait` polls, only log status changes. A dropped tx can still be mined.
+    if (
+      entry &&
+      receipt.status !== TxStatus.PENDING &&
+      receipt.status !== entry.status
+    ) {
+      Object.assign(entry, {
+        time: new Date().toISOString(),
+        status: receipt.status,
+        error: receipt.error || undefined,
+        blockNumber: receipt.blockNumber,
+      });
+      appendEntry(file, entry);
+    }
+    return receipt;
+  };
+
+  return wallet;
+}
+
+/**
+ * Read a tx log, keeping the last entry of every transaction
+ * @param file - The tx log file
+ * @returns The entries, in the order the transactions were sent
+ */
+export function readTxLog(file: string): TxLogEntry[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+  const entries = new Map<string, TxLogEntry>();
+  readFileSync(file, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .forEach((line, i) => {
+      const entry = JSON.parse(line) as TxLogEntry;
+      // Setting an existing key keeps the position of its first entry
+      entries.set(entry.txHash ?? `rejected-${i}`, entry);
+    });
+  return [...entries.values()];
+}
+
+/**
+ * Find the sandbox log lines relevant to a failed test: the lines mentioning
+ * one of its transactions, and the errors and warnings logged while it ran.
+ * Lines without a timestamp, e.g. in the `yarn sandbox start` log, only match
+ * by tx hash.
+ * @param logFile - The sandbox log, written by `SandboxManager`
+ * @param since - When the test started
+ * @param until - optional - When it failed, now by default
+ * @param txHashes - optional - The transactions it sent
+ * @param maxLines - optional - Keep the last lines only, 20 by default
+ */
+export function findSandboxLogLines(
+  logFile: string,
+  {
+    since,
+    until = new Date(),
+    txHashes = [],
+    maxLines = 20,
+  }: { since: Date; until?: Date; txHashes?: string[]; maxLines?: number },
+): SandboxLogLine[] {
+  if (!existsSync(logFile)) {
+    return [];
+  }
+  const lines: SandboxLogLine[] = [];
+  readFileSync(logFile, "utf8")
+    .split("\n")
+    .forEach((text, i) => {
+      const time = Date.parse(text.slice(0, text.indexOf(" ")));
+      const duringTest =
+        !isNaN(time) && time >= since.getTime() && time <= until.getTime();
+      if (
+        txHashes.some((txHash) => text.includes(txHash)) ||
+        (duringTest && PROBLEM_PATTERN.test(text))
+      ) {
+        lines.push({ line: i + 1, text });
+      }
+    });
+  return lines.slice(-maxLines);
+}
+
+/**
+ * Formats what to look at after a test failure, as Markdown
+ * @param test - The test name
+ * @param txs - The transactions it sent
+ * @param logFile - optional - The sandbox log the lines are from
+ * @param lines - optional - The relevant lines, see `findSandboxLogLines`
+ */
+export function formatFailureSummary(
+  test: string,
+  txs: TxLogEntry[],
+  logFile?: string,
+  lines: SandboxLogLine[] = [],
+): string {
+  const summary = [`### ❌ ${test}`, ""];
+  if (txs.length === 0) {
+    summary.push("No transactions sent.");
+  }
+  for (const tx of txs) {
+    const calls = tx.calls.map((call) => call.function).join(", ");
+    const error = tx.error ? `: ${tx.error}` : "";
+    summary.push(
+      `- ${calls} from ${tx.from ?? "unknown"} ${tx.txHash ?? "(not sent)"} ${tx.status}${error}`,
+    );
+  }
+  if (logFile) {
+    summary.push(
+      "",
+      lines.length > 0
+        ? `Sandbox log (${logFile}):`
+        : `Nothing relevant in the sandbox log (${logFile})`,
+      ...lines.map(({ line, text }) => `    ${logFile}:${line}  ${text}`),
+    );
+  }
+  return summary.join("\n");
+}
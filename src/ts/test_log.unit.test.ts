@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { TokenContract } from "../artifacts/Token.js";
+import { FakeWallet } from "./fakes.js";
+import {
+  findSandboxLogLines,
+  formatFailureSummary,
+  logTransactions,
+  readTxLog,
+} from "./test_log.js";
+
+describe("Test logs", () => {
+  let dir: string;
+  let file: string;
+  let wallet: FakeWallet;
+  let from: AztecAddress;
+  let token: TokenContract;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "test-log-"));
+    file = join(dir, "txs.jsonl");
+    wallet = new FakeWallet();
+    from = await AztecAddress.random();
+    const { address } = await wallet.node.addContract();
+    token = await TokenContract.at(
+      address,
+      logTransactions(wallet, file, () => "mints"),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true });
+  });
+
+  it("logs the sent transactions with their final status", async () => {
+    const { txHash } = await token.methods
+      .mint_to_public(from, 10n)
+      .send({ from })
+      .wait();
+    wallet.onSend("mint_to_public", () => {
+      throw new Error("Assertion failed: caller is not minter");
+    });
+    await expect(
+      token.methods.mint_to_public(from, 10n).send({ from }).wait(),
+    ).rejects.toThrow();
+
+    expect(readTxLog(file)).toMatchObject([
+      {
+        test: "mints",
+        from: from.toString(),
+        calls: [{ to: token.address.toString(), function: "mint_to_public" }],
+        txHash: txHash.toString(),
+        status: "success",
+        blockNumber: wallet.node.blockNumber,
+      },
+      {
+        test: "mints",
+        status: "rejected",
+        error: "Assertion failed: caller is not minter",
+      },
+    ]);
+  });
+
+  it("logs a proven transaction once it is sent", async () => {
+    const tx = await wallet.proveTx(
+      await token.methods.mint_to_public(from, 10n).request(),
+      { from },
+    );
+    expect(readTxLog(file)).toStrictEqual([]);
+
+    const { txHash } = await tx.send().wait();
+
+    expect(txHash).toStrictEqual(tx.getTxHash());
+    expect(readTxLog(file)).toMatchObject([
+      {
+        test: "mints",
+        calls: [{ to: token.address.toString(), function: "mint_to_public" }],
+        txHash: txHash.toString(),
+        status: "success",
+      },
+    ]);
+  });
+
+  it("points a failure to the sandbox log lines of the test", () => {
+    const log = join(dir, "sandbox-8080.log");
+    const txHash = "0x2a";
+    writeFileSync(
+      log,
+      [
+        "2025-01-01T00:00:00.000Z stderr ERROR: before the test",
+        "2025-01-01T00:01:00.000Z stdout INFO: block 3 built",
+        "2025-01-01T00:01:01.000Z stderr WARN: tx 0x2a reverted",
+        "2025-01-01T00:01:02.000Z stderr ERROR: archiver stalled",
+        `untimestamped daemon output ${txHash}`,
+      ].join("\n"),
+    );
+
+    const lines = findSandboxLogLines(log, {
+      since: new Date("2025-01-01T00:01:00.000Z"),
+      until: new Date("2025-01-01T00:02:00.000Z"),
+      txHashes: [txHash],
+    });
+
+    expect(lines.map(({ line }) => line)).toStrictEqual([3, 4, 5]);
+    const summary = formatFailureSummary(
+      "Governance > votes",
+      [
+        {
+          time: "2025-01-01T00:01:01.000Z",
+          calls: [{ to: "0x01", function: "cast_vote" }],
+          from: "0x02",
+          txHash,
+          status: "reverted",
+          error: "Vote already cast",
+        },
+      ],
+      log,
+      lines,
+    );
+    expect(summary).toContain(
+      "- cast_vote from 0x02 0x2a reverted: Vote already cast",
+    );
+    expect(summary).toContain(`${log}:4  2025-01-01T00:01:02.000Z stderr`);
+  });
+});
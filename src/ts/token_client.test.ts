@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { deployTokenWithMinter, setupTestSuite } from "./utils.js";
+import {
+  parseCommitment,
+  shareCommitment,
+  TokenClient,
+} from "./token_client.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+describe("TokenClient", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let minter: AztecAddress;
+  let alice: AztecAddress;
+  let bob: AztecAddress;
+  let token: TokenClient;
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [minter, alice, bob] = accounts;
+
+    node = createAztecNodeClient(NODE_URL);
+    const contract = await deployTokenWithMinter(wallet, minter);
+    await contract.methods
+      .mint_to_private(bob, 100n)
+      .send({ from: minter })
+      .wait();
+    await contract.methods
+      .mint_to_public(bob, 100n)
+      .send({ from: minter })
+      .wait();
+    token = await TokenClient.connect(
+      { wallet, node, from: alice },
+      contract.address,
+    );
+  });
+
+  afterEach(async () => {
+    await store.delete();
+  });
+
+  it("receives a private payment into a commitment", async () => {
+    const commitment = await token.initializeCommitment(bob);
+
+    // Alice hands the commitment over, Bob completes it from his private balance
+    const shared = parseCommitment(shareCommitment(commitment));
+    await token.withSender(bob).completeFromPrivate(shared, 30n);
+
+    expect(shared.status).toBe("completed");
+    expect(await token.getBalances(alice)).toStrictEqual({
+      private: 30n,
+      public: 0n,
+    });
+    expect((await token.getBalances(bob)).private).toBe(70n);
+    await expect(
+      token.withSender(bob).completeFromPrivate(shared, 30n),
+    ).rejects.toThrow("already completed");
+  });
+
+  it("completes commitments from a public balance and by minting", async () => {
+    const fromPublic = await token.initializeCommitment(bob);
+    await token.withSender(bob).completeFromPublic(fromPublic, 40n);
+
+    const minted = await token.initializeCommitment(minter);
+    await token.withSender(minter).mintToCommitment(minted, 5n);
+
+    expect(await token.getBalances(alice)).toStrictEqual({
+      private: 45n,
+      public: 0n,
+    });
+    expect((await token.getBalances(bob)).public).toBe(60n);
+  });
+
+  it("rejects a completion by another account than the completer", async () => {
+    const commitment = await token.initializeCommitment(bob);
+
+    // The client refuses, and so does the contract
+    await expect(
+      token.withSender(minter).mintToCommitment(commitment, 5n),
+    ).rejects.toThrow(`can only be completed by ${bob.toString()}`);
+    await expect(
+      token
+        .withSender(minter)
+        .mintToCommitment({ ...commitment, completer: minter }, 5n),
+    ).rejects.toThrow("Invalid partial note or completer");
+  });
+
+  it("returns change through a commitment the sender completes", async () => {
+    const bobToken = token.withSender(bob);
+    const change = await bobToken.transferPrivateToPublicWithCommitment(
+      alice,
+      60n,
+    );
+    expect(change.completer).toStrictEqual(bob);
+
+    await bobToken.completeFromPublic(change, 10n);
+
+    expect(await token.getBalances(alice)).toStrictEqual({
+      private: 10n,
+      public: 60n,
+    });
+  });
+
+  it("spends another account's balance with an authwit", async () => {
+    const commitment = await token.initializeCommitment(minter);
+
+    // The minter completes it from Bob's balances, authorized by Bob
+    const minterToken = token.withSender(minter);
+    await minterToken.completeFromPrivate(commitment, 20n, { owner: bob });
+    const second = await token.initializeCommitment(minter);
+    await minterToken.completeFromPublic(second, 20n, { owner: bob });
+
+    expect(await token.getBalances(bob)).toStrictEqual({
+      private: 80n,
+      public: 80n,
+    });
+    expect((await token.getBalances(alice)).private).toBe(40n);
+  });
+});
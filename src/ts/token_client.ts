@@ -0,0 +1,419 @@
+import { type SendOptions, type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type TxHash, type TxReceipt } from "@aztec/aztec.js/tx";
+import { type AuthWitness } from "@aztec/aztec.js/authorization";
+import {
+  type ContractFunctionInteraction,
+  type SentTx,
+} from "@aztec/aztec.js/contracts";
+import { type ExecutionPayload } from "@aztec/entrypoints/payload";
+import { type OffchainEffect } from "@aztec/stdlib/tx";
+import { readFieldCompressedString } from "@aztec/aztec.js/utils";
+import { TokenContract, TokenContractArtifact } from "../artifacts/Token.js";
+import { createPrivateAuthwit, setPublicAuthwit } from "./authwit.js";
+
+/**
+ * `open` until the completer moves tokens into the commitment, then `completed`
+ */
+export type CommitmentStatus = "open" | "completed";
+
+/**
+ * A transfer commitment: a partial note of a token that `recipient` will own,
+ * and only `completer` can fill with an amount, once.
+ * @param value - The partial note commitment, the `commitment` argument of the contract
+ * @param txHash - optional - The tx that initialized it, if initialized by this client
+ * @param amount - optional - The amount it was completed with
+ * @param completionTxHash - optional - The tx that completed it
+ */
+export interface Commitment {
+  value: Fr;
+  token: AztecAddress;
+  recipient: AztecAddress;
+  completer: AztecAddress;
+  status: CommitmentStatus;
+  txHash?: TxHash;
+  amount?: bigint;
+  completionTxHash?: TxHash;
+}
+
+export interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * A tx proven by the wallet, sent as is with `send`
+ * @param offchainEffects - The offchain effects its execution emitted
+ */
+export interface ProvenTransaction {
+  offchainEffects: OffchainEffect[];
+  getTxHash(): TxHash;
+  send(): SentTx;
+}
+
+/**
+ * A wallet that proves a tx before sending it, like `TestWallet`
+ */
+export interface ProvingWallet extends Wallet {
+  proveTx(
+    exec: ExecutionPayload,
+    opts: SendOptions,
+  ): Promise<ProvenTransaction>;
+}
+
+/**
+ * The wallet, node and account a client acts with
+ */
+export interface TokenClientContext {
+  wallet: ProvingWallet;
+  node: Pick<AztecNode, "getContract">;
+  from: AztecAddress;
+}
+
+/**
+ * @param owner - optional - The account whose balance is spent, the sender by default.
+ * Another account of the same wallet authorizes the sender with an authwit.
+ */
+export interface SpendOptions {
+  owner?: AztecAddress;
+}
+
+/**
+ * Serializes what a completer needs to know about a commitment, to hand it over
+ * @returns A JSON string, see `parseCommitment`
+ */
+export function shareCommitment(commitment: Commitment): string {
+  const { value, token, recipient, completer } = commitment;
+  return JSON.stringify({
+    value: value.toString(),
+    token: token.toString(),
+    recipient: recipient.toString(),
+    completer: completer.toString(),
+  });
+}
+
+/**
+ * Reads a commitment handed over with `shareCommitment`
+ * @returns The commitment, open as far as we know
+ */
+export function parseCommitment(shared: string): Commitment {
+  const { value, token, recipient, completer } = JSON.parse(shared);
+  return {
+    value: Fr.fromString(value),
+    token: AztecAddress.fromString(token),
+    recipient: AztecAddress.fromString(recipient),
+    completer: AztecAddress.fromString(completer),
+    status: "open",
+  };
+}
+
+/**
+ * Typed wrapper around a Token instance, for its partial note flows.
+ * The recipient creates a commitment, hands it to the completer, who fills it
+ * from their private or public balance, or mints into it.
+ */
+export class TokenClient {
+  private constructor(
+    private readonly context: TokenClientContext,
+    private readonly contract: TokenContract,
+  ) {}
+
+  /**
+   * Connects to a deployed Token, registering it in the wallet
+   * @param context - The wallet, node and acting account
+   * @param address - The address of the Token instance
+   * @returns A client connected to the instance
+   */
+  static async connect(
+    context: TokenClientContext,
+    address: AztecAddress,
+  ): Promise<TokenClient> {
+    const { wallet, node } = context;
+    const instance = await node.getContract(address);
+    if (!instance) {
+      throw new Error(`No contract instance found at ${address.toString()}`);
+    }
+    await wallet.registerContract(instance, TokenContractArtifact);
+    const contract = await TokenContract.at(address, wallet);
+
+    return new TokenClient(context, contract);
+  }
+
+  get address(): AztecAddress {
+    return this.contract.address;
+  }
+
+  get from(): AztecAddress {
+    return this.context.from;
+  }
+
+  /**
+   * Returns a client acting as another account of the same wallet
+   * @param from - The account to act as
+   */
+  withSender(from: AztecAddress): TokenClient {
+    return new TokenClient({ ...this.context, from }, this.contract);
+  }
+
+  private get methods() {
+    return this.contract.withWallet(this.context.wallet).methods;
+  }
+
+  /**
+   * Creates a commitment, usually by its recipient, to hand to the completer
+   * @param completer - The only account that can complete it
+   * @param recipient - optional - Who will own the tokens, the sender by default
+   */
+  async initializeCommitment(
+    completer: AztecAddress,
+    recipient: AztecAddress = this.from,
+  ): Promise<Commitment> {
+    const { value, txHash } = await this.sendForCommitment(
+      this.methods.initialize_transfer_commitment(recipient, completer),
+    );
+    return this.commitment(value, txHash, recipient, completer);
+  }
+
+  /**
+   * Moves tokens from a private to a public balance and creates a commitment
+   * for `to`, which the sender can complete later, e.g. to return the change
+   * @param to - The recipient of the public tokens and of the commitment
+   * @param amount - The amount moved to the public balance
+   */
+  async transferPrivateToPublicWithCommitment(
+    to: AztecAddress,
+    amount: bigint,
+    options: SpendOptions = {},
+  ): Promise<Commitment> {
+    const owner = options.owner ?? this.from;
+    const nonce = this.nonceFor(owner);
+    const action = this.methods.transfer_private_to_public_with_commitment(
+      owner,
+      to,
+      amount,
+      nonce,
+    );
+    const { value, txHash } = await this.sendForCommitment(
+      action,
+      await this.privateAuthWitnesses(owner, action),
+    );
+    return this.commitment(value, txHash, to, this.from);
+  }
+
+  /**
+   * Completes a commitment from a private balance
+   * @param commitment - The commitment, updated once completed
+   * @param amount - The amount the recipient receives
+   */
+  async completeFromPrivate(
+    commitment: Commitment,
+    amount: bigint,
+    options: SpendOptions = {},
+  ): Promise<TxReceipt> {
+    this.assertCanComplete(commitment);
+    const owner = options.owner ?? this.from;
+    const action = this.methods.transfer_private_to_commitment(
+      owner,
+      commitment.value,
+      amount,
+      this.nonceFor(owner),
+    );
+    const receipt = await action
+      .send({
+        from: this.from,
+        authWitnesses: await this.privateAuthWitnesses(owner, action),
+      })
+      .wait();
+    return this.completed(commitment, amount, receipt);
+  }
+
+  /**
+   * Completes a commitment from a public balance
+   * @param commitment - The commitment, updated once completed
+   * @param amount - The amount the recipient receives
+   */
+  async completeFromPublic(
+    commitment: Commitment,
+    amount: bigint,
+    options: SpendOptions = {},
+  ): Promise<TxReceipt> {
+    this.assertCanComplete(commitment);
+    const owner = options.owner ?? this.from;
+    const action = this.methods.transfer_public_to_commitment(
+      owner,
+      commitment.value,
+      amount,
+      this.nonceFor(owner),
+    );
+    await this.setPublicAuthwit(owner, action);
+    const receipt = await action.send({ from: this.from }).wait();
+    return this.completed(commitment, amount, receipt);
+  }
+
+  /**
+   * Completes a commitment with newly minted tokens, only for the minter
+   * @param commitment - The commitment, updated once completed
+   * @param amount - The amount minted to the recipient
+   */
+  async mintToCommitment(
+    commitment: Commitment,
+    amount: bigint,
+  ): Promise<TxReceipt> {
+    this.assertCanComplete(commitment);
+    const receipt = await this.methods
+      .mint_to_commitment(commitment.value, amount)
+      .send({ from: this.from })
+      .wait();
+    return this.completed(commitment, amount, receipt);
+  }
+
+  /**
+   * Reads the balances of an account
+   * @param owner - optional - The account, the sender by default
+   */
+  async getBalances(
+    owner: AztecAddress = this.from,
+  ): Promise<{ private: bigint; public: bigint }> {
+    return {
+      private: BigInt(
+        await this.methods
+          .balance_of_private(owner)
+          .simulate({ from: this.from }),
+      ),
+      public: BigInt(
+        await this.methods
+          .balance_of_public(owner)
+          .simulate({ from: this.from }),
+      ),
+    };
+  }
+
+  /**
+   * Reads the name, symbol and decimals of the token
+   */
+  async getMetadata(): Promise<TokenMetadata> {
+    const [name, symbol, decimals] = await Promise.all([
+      this.methods.name().simulate({ from: this.from }),
+      this.methods.symbol().simulate({ from: this.from }),
+      this.methods.decimals().simulate({ from: this.from }),
+    ]);
+    return {
+      name: readFieldCompressedString(name),
+      symbol: readFieldCompressedString(symbol),
+      decimals: Number(decimals),
+    };
+  }
+
+  private commitment(
+    value: Fr,
+    txHash: TxHash,
+    recipient: AztecAddress,
+    completer: AztecAddress,
+  ): Commitment {
+    return {
+      value,
+      token: this.address,
+      recipient,
+      completer,
+      status: "open",
+      txHash,
+    };
+  }
+
+  private assertCanComplete(commitment: Commitment) {
+    if (!commitment.token.equals(this.address)) {
+      throw new Error(
+        `Commitment is for token ${commitment.token.toString()}, not ${this.address.toString()}`,
+      );
+    }
+    if (commitment.status === "completed") {
+      throw new Error(
+        `Commitment ${commitment.value.toString()} is already completed`,
+      );
+    }
+    if (!commitment.completer.equals(this.from)) {
+      throw new Error(
+        `Commitment ${commitment.value.toString()} can only be completed by ${commitment.completer.toString()}`,
+      );
+    }
+  }
+
+  private completed(
+    commitment: Commitment,
+    amount: bigint,
+    receipt: TxReceipt,
+  ): TxReceipt {
+    commitment.status = "completed";
+    commitment.amount = amount;
+    commitment.completionTxHash = receipt.txHash;
+    return receipt;
+  }
+
+  /**
+   * `_nonce` is only checked with an authwit, so spending our own balance uses 0
+   * and spending another account's a random one, which the authwit commits to
+   */
+  private nonceFor(owner: AztecAddress): Fr {
+    return owner.equals(this.from) ? Fr.ZERO : Fr.random();
+  }
+
+  private async privateAuthWitnesses(
+    owner: AztecAddress,
+    action: ContractFunctionInteraction,
+  ): Promise<AuthWitness[]> {
+    if (owner.equals(this.from)) {
+      return [];
+    }
+    return [
+      await createPrivateAuthwit(this.context.wallet, {
+        owner,
+        caller: this.from,
+        action,
+      }),
+    ];
+  }
+
+  private async setPublicAuthwit(
+    owner: AztecAddress,
+    action: ContractFunctionInteraction,
+  ): Promise<void> {
+    if (owner.equals(this.from)) {
+      return;
+    }
+    await setPublicAuthwit(this.context.wallet, {
+      owner,
+      caller: this.from,
+      action,
+    });
+  }
+
+  /**
+   * Sends a call that returns a commitment. Commitments embed randomness, so a
+   * second execution would return another one: the tx is proven once, the
+   * commitment read from the offchain effect the Token emits with it, and that
+   * same proven tx sent.
+   */
+  private async sendForCommitment(
+    action: ContractFunctionInteraction,
+    authWitnesses: AuthWitness[] = [],
+  ): Promise<{ value: Fr; txHash: TxHash }> {
+    const tx = await this.context.wallet.proveTx(
+      await action.request({ authWitnesses }),
+      { from: this.from },
+    );
+    // Authwit checks emit offchain effects too, of the accounts and longer
+    const effect = tx.offchainEffects.find(
+      ({ contractAddress, data }) =>
+        contractAddress.equals(this.address) && data.length === 1,
+    );
+    if (!effect) {
+      throw new Error("The call did not emit a commitment");
+    }
+
+    const { txHash } = await tx.send().wait();
+    return { value: effect.data[0], txHash };
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { TxStatus } from "@aztec/aztec.js/tx";
+import { FakeAztecNode, FakeWallet } from "./fakes.js";
+import {
+  parseCommitment,
+  shareCommitment,
+  TokenClient,
+} from "./token_client.js";
+
+describe("TokenClient (fake node)", () => {
+  let node: FakeAztecNode;
+  let wallet: FakeWallet;
+  let recipient: AztecAddress;
+  let completer: AztecAddress;
+  let token: TokenClient;
+
+  beforeEach(async () => {
+    node = new FakeAztecNode();
+    wallet = new FakeWallet(node);
+    [recipient, completer] = await Promise.all([
+      AztecAddress.random(),
+      AztecAddress.random(),
+    ]);
+    const { address } = await node.addContract();
+    token = await TokenClient.connect(
+      { wallet: wallet, node: node, from: recipient },
+      address,
+    );
+  });
+
+  it("returns the commitment of the initialization that was sent", async () => {
+    const value = Fr.random();
+    wallet.onOffchainEffect("initialize_transfer_commitment", () => [value]);
+
+    const commitment = await token.initializeCommitment(completer);
+
+    expect(commitment).toMatchObject({
+      value,
+      recipient,
+      completer,
+      status: "open",
+    });
+    expect((await node.getTxReceipt(commitment.txHash!)).status).toBe(
+      TxStatus.SUCCESS,
+    );
+    expect(wallet.sent[0]).toMatchObject({
+      name: "initialize_transfer_commitment",
+      args: [recipient.toField(), completer.toField()],
+      from: recipient,
+    });
+    expect(parseCommitment(shareCommitment(commitment))).toStrictEqual({
+      value,
+      token: token.address,
+      recipient,
+      completer,
+      status: "open",
+    });
+  });
+
+  it("completes a commitment once, from its completer only", async () => {
+    wallet.onOffchainEffect("initialize_transfer_commitment", () => [
+      Fr.random(),
+    ]);
+    const commitment = await token.initializeCommitment(completer);
+
+    await expect(token.completeFromPrivate(commitment, 10n)).rejects.toThrow(
+      `can only be completed by ${completer.toString()}`,
+    );
+
+    const receipt = await token
+      .withSender(completer)
+      .completeFromPrivate(commitment, 10n);
+
+    expect(commitment).toMatchObject({
+      status: "completed",
+      amount: 10n,
+      completionTxHash: receipt.txHash,
+    });
+    // Spending our own balance needs no authwit, so the nonce is 0
+    expect(wallet.sent).toMatchObject([
+      { name: "initialize_transfer_commitment" },
+      {
+        name: "transfer_private_to_commitment",
+        args: [completer.toField(), commitment.value, new Fr(10n), Fr.ZERO],
+        from: completer,
+      },
+    ]);
+    await expect(
+      token.withSender(completer).mintToCommitment(commitment, 10n),
+    ).rejects.toThrow("already completed");
+  });
+});
@@ -0,0 +1,354 @@
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join, relative } from "path";
+
+/**
+ * A version pin or artifact of the workspace, compared with what the toolchain expects
+ * @param file - The file the value was read from, relative to the workspace root
+ * @param field - Where in the file, e.g. `dependencies.@aztec/pxe` or `aztec.tag`
+ * @param fixable - Whether `applyFixes` can write the expected value
+ * @param hint - optional - How to fix it by hand
+ */
+export interface ToolchainCheck {
+  file: string;
+  field: string;
+  found: string;
+  expected: string;
+  ok: boolean;
+  fixable: boolean;
+  hint?: string;
+}
+
+interface PackageJson {
+  version?: string;
+  config?: { aztecVersion?: string };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+// The package.json fields `checkPackageJson` reports as fixable
+type PackageJsonSection = "version" | "dependencies" | "devDependencies";
+
+// The artifacts of the installed `@aztec/noir-contracts.js` tell which Noir build the packages expect
+const REFERENCE_ARTIFACTS = "node_modules/@aztec/noir-contracts.js/artifacts";
+
+const check = (
+  fields: Omit<ToolchainCheck, "ok" | "fixable"> & { fixable?: boolean },
+): ToolchainCheck => ({
+  fixable: false,
+  ...fields,
+  ok: fields.found === fields.expected,
+});
+
+const readPackageJson = (root: string): PackageJson =>
+  JSON.parse(readFileSync(join(root, "package.json"), "utf8"));
+
+/**
+ * @returns The Aztec version the workspace is pinned to, `config.aztecVersion` of package.json
+ */
+export function readExpectedVersion(root: string): string {
+  const expected = readPackageJson(root).config?.aztecVersion;
+  if (!expected) {
+    throw new Error("No aztecVersion found in package.json config");
+  }
+  return expected;
+}
+
+/**
+ * Checks the package version and the `@aztec/*` dependencies of package.json
+ */
+export function checkPackageJson(
+  root: string,
+  expected: string,
+): ToolchainCheck[] {
+  const packageJson = readPackageJson(root);
+  const checks = [
+    check({
+      file: "package.json",
+      field: "version",
+      found: packageJson.version ?? "",
+      expected,
+      fixable: true,
+    }),
+  ];
+  const sections: PackageJsonSection[] = ["dependencies", "devDependencies"];
+  for (const section of sections) {
+    for (const [name, version] of Object.entries(packageJson[section] ?? {})) {
+      if (name.startsWith("@aztec/")) {
+        checks.push(
+          check({
+            file: "package.json",
+            field: `${section}.${name}`,
+            found: version,
+            expected,
+            fixable: true,
+          }),
+        );
+      }
+    }
+  }
+  return checks;
+}
+
+/**
+ * @returns The Nargo.toml of every member of the root Nargo.toml workspace
+ */
+export function findNargoManifests(root: string): string[] {
+  const workspace = readFileSync(join(root, "Nargo.toml"), "utf8");
+  const members = workspace.match(/members\s*=\s*\[([^\]]*)\]/);
+  if (!members) {
+    return [];
+  }
+  return [...members[1].matchAll(/"([^"]+)"/g)].map(([, member]) =>
+    join(member, "Nargo.toml"),
+  );
+}
+
+/**
+ * Checks the `tag` of the git dependencies of a Nargo.toml, written as inline tables
+ * @param manifest - The Nargo.toml path, relative to the root
+ */
+export function checkNargoManifest(
+  root: string,
+  manifest: string,
+  expected: string,
+): ToolchainCheck[] {
+  const content = readFileSync(join(root, manifest), "utf8");
+  return [...content.matchAll(/^(\w+)\s*=\s*\{.*\btag\s*=\s*"([^"]+)"/gm)].map(
+    ([, dependency, tag]) =>
+      check({
+        file: manifest,
+        field: `${dependency}.tag`,
+        found: tag,
+        expected: `v${expected}`,
+        fixable: true,
+      }),
+  );
+}
+
+/**
+ * @returns The Noir version the installed `@aztec/*` packages were built with, undefined without node_modules
+ */
+export function readReferenceNoirVersion(root: string): string | undefined {
+  const dir = join(root, REFERENCE_ARTIFACTS);
+  if (!existsSync(dir)) {
+    return undefined;
+  }
+  const artifact = readdirSync(dir).find((file) => file.endsWith(".json"));
+  return artifact
+    ? JSON.parse(readFileSync(join(dir, artifact), "utf8")).noir_version
+    : undefined;
+}
+
+/**
+ * Checks that the compiled contracts in target/ were built and post-processed
+ * by the same toolchain, and that src/artifacts/ was generated from them
+ * @param referenceNoirVersion - optional - The Noir version to expect, the one of the first artifact by default
+ */
+export function checkArtifacts(
+  root: string,
+  referenceNoirVersion?: string,
+): ToolchainCheck[] {
+  const targetDir = join(root, "target");
+  const artifactsDir = join(root, "src/artifacts");
+  if (!existsSync(targetDir) || !existsSync(artifactsDir)) {
+    return [
+      check({
+        file: existsSync(targetDir) ? "src/artifacts" : "target",
+        field: "artifacts",
+        found: "missing",
+        expected: "compiled",
+        hint: "yarn ccc",
+      }),
+    ];
+  }
+
+  const contracts = readdirSync(targetDir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => ({
+      file: `target/${file}`,
+      artifact: JSON.parse(readFileSync(join(targetDir, file), "utf8")),
+    }))
+    .filter(({ artifact }) => artifact.noir_version !== undefined);
+  const expectedNoirVersion =
+    referenceNoirVersion ?? contracts[0]?.artifact.noir_version;
+
+  const checks = contracts.flatMap(({ file, artifact }) => [
+    check({
+      file,
+      field: "noir_version",
+      found: artifact.noir_version,
+      expected: expectedNoirVersion,
+      hint: "yarn ccc",
+    }),
+    check({
+      file,
+      field: "transpiled",
+      found: String(artifact.transpiled === true),
+      expected: "true",
+      hint: "yarn compile",
+    }),
+  ]);
+
+  // Generated bindings import the target artifact they were generated from
+  const generated = new Set<string>();
+  for (const file of readdirSync(artifactsDir).filter((file) =>
+    file.endsWith(".ts"),
+  )) {
+    const path = join(artifactsDir, file);
+    const source = readFileSync(path, "utf8").match(
+      /from\s+['"]([^'"]+\.json)['"]/,
+    );
+    if (!source) {
+      continue;
+    }
+    const artifactPath = join(dirname(path), source[1]);
+    const artifact = relative(root, artifactPath);
+    generated.add(artifact);
+    checks.push(
+      check({
+        file: `src/artifacts/${file}`,
+        field: "generated from",
+        found: !existsSync(artifactPath)
+          ? `missing ${artifact}`
+          : statSync(path).mtimeMs < statSync(artifactPath).mtimeMs
+            ? `older than ${artifact}`
+            : artifact,
+        expected: artifact,
+        hint: "yarn codegen",
+      }),
+    );
+  }
+  for (const { file } of contracts) {
+    if (!generated.has(file)) {
+      checks.push(
+        check({
+          file,
+          field: "bindings",
+          found: "missing",
+          expected: "src/artifacts",
+          hint: "yarn codegen",
+        }),
+      );
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Checks every version pin and compiled artifact of the workspace
+ * @param root - The workspace root
+ * @param installedVersion - optional - The output of `aztec --version`, not checked if undefined
+ */
+export function checkToolchain(
+  root: string,
+  installedVersion?: string,
+): ToolchainCheck[] {
+  const expected = readExpectedVersion(root);
+  return [
+    ...(installedVersion === undefined
+      ? []
+      : [
+          check({
+            file: "aztec CLI",
+            field: "aztec --version",
+            found: installedVersion,
+            expected,
+            hint: `VERSION=${expected} aztec-up`,
+          }),
+        ]),
+    ...checkPackageJson(root, expected),
+    ...findNargoManifests(root).flatMap((manifest) =>
+      checkNargoManifest(root, manifest, expected),
+    ),
+    ...checkArtifacts(root, readReferenceNoirVersion(root)),
+  ];
+}
+
+/**
+ * Writes the expected value of every fixable mismatch
+ * @returns The files written
+ */
+export function applyFixes(root: string, checks: ToolchainCheck[]): string[] {
+  const fixes = checks.filter((check) => !check.ok && check.fixable);
+  const files = [...new Set(fixes.map((fix) => fix.file))];
+
+  for (const file of files) {
+    const path = join(root, file);
+    const fileFixes = fixes.filter((fix) => fix.file === file);
+
+    if (file === "package.json") {
+      const packageJson = readPackageJson(root);
+      for (const { field, expected } of fileFixes) {
+        setPackageJsonField(packageJson, field, expected);
+      }
+      writeFileSync(path, `${JSON.stringify(packageJson, null, 2)}\n`);
+    } else {
+      let content = readFileSync(path, "utf8");
+      for (const { field, found, expected } of fileFixes) {
+        const dependency = field.replace(/\.tag$/, "");
+        content = content.replace(
+          new RegExp(
+            `^(${dependency}\\s*=\\s*\\{.*\\btag\\s*=\\s*")${escapeRegExp(found)}"`,
+            "m",
+          ),
+          `$1${expected}"`,
+        );
+      }
+      writeFileSync(path, content);
+    }
+  }
+  return files;
+}
+
+/**
+ * Sets a field of package.json by its `ToolchainCheck` field, e.g. `version`
+ * or `dependencies.@aztec/pxe`
+ */
+function setPackageJsonField(
+  packageJson: PackageJson,
+  field: string,
+  value: string,
+): void {
+  const [section, ...name] = field.split(".");
+  switch (section) {
+    case "version":
+      packageJson.version = value;
+      return;
+    case "dependencies":
+    case "devDependencies":
+      packageJson[section] = {
+        ...packageJson[section],
+        [name.join(".")]: value,
+      };
+      return;
+    default:
+      throw new Error(`Can't fix ${field} of package.json`);
+  }
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Formats the checks as a Markdown table, mismatches first
+ */
+export function formatTable(checks: ToolchainCheck[]): string {
+  const rows = [...checks]
+    .sort((a, b) => Number(a.ok) - Number(b.ok))
+    .map(
+      ({ file, field, found, expected, ok, hint }) =>
+        `| ${ok ? "✅" : "❌"} | ${file} | \`${field}\` | ${found} | ${expected} | ${ok ? "" : (hint ?? "--fix")} |`,
+    );
+  return [
+    "|  | File | Field | Found | Expected | Fix |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyFixes, checkToolchain, formatTable } from "./toolchain.js";
+
+const artifact = (noirVersion: string, transpiled = true) =>
+  JSON.stringify({ noir_version: noirVersion, transpiled, name: "Contract" });
+
+const binding = (target: string) =>
+  `import ArtifactJson from '../../target/${target}' with { type: 'json' };\n`;
+
+describe("toolchain consistency", () => {
+  let root: string;
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(root, path, ".."), { recursive: true });
+    writeFileSync(join(root, path), content);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "toolchain-"));
+    write(
+      "package.json",
+      JSON.stringify(
+        {
+          version: "3.0.0-devnet.2",
+          config: { aztecVersion: "3.0.0-devnet.5" },
+          dependencies: {
+            "@aztec/aztec.js": "3.0.0-devnet.5",
+            "@aztec/pxe": "3.0.0-devnet.4",
+            yaml: "2.8.1",
+          },
+        },
+        null,
+        2,
+      ),
+    );
+    write("Nargo.toml", '[workspace]\nmembers = [\n    "src/nr/gov",\n]\n');
+    write(
+      "src/nr/gov/Nargo.toml",
+      [
+        "[dependencies]",
+        'aztec = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "v3.0.0-devnet.5", directory = "noir-projects/aztec-nr/aztec" }',
+        'uint_note = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "v3.0.0-devnet.4", directory = "noir-projects/aztec-nr/uint-note" }',
+        'token = {path = "../token_contract"}',
+      ].join("\n"),
+    );
+
+    write("target/gov-Governance.json", artifact("1.0.0-beta.14+abc"));
+    write("target/token-Token.json", artifact("1.0.0-beta.13+def", false));
+    write("src/artifacts/Governance.ts", binding("gov-Governance.json"));
+    write("src/artifacts/Token.ts", binding("token-Token.json"));
+    // Token was compiled again after its bindings were generated
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(join(root, "src/artifacts/Token.ts"), past, past);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true });
+  });
+
+  it("reports every mismatch", () => {
+    const mismatches = checkToolchain(root, "3.0.0-devnet.5")
+      .filter((check) => !check.ok)
+      .map(({ file, field, found }) => `${file} ${field}: ${found}`);
+
+    expect(mismatches).toStrictEqual([
+      "package.json version: 3.0.0-devnet.2",
+      "package.json dependencies.@aztec/pxe: 3.0.0-devnet.4",
+      "src/nr/gov/Nargo.toml uint_note.tag: v3.0.0-devnet.4",
+      "target/token-Token.json noir_version: 1.0.0-beta.13+def",
+      "target/token-Token.json transpiled: false",
+      "src/artifacts/Token.ts generated from: older than target/token-Token.json",
+    ]);
+    expect(formatTable(checkToolchain(root))).toContain(
+      "| ❌ | src/nr/gov/Nargo.toml | `uint_note.tag` | v3.0.0-devnet.4 | v3.0.0-devnet.5 | --fix |",
+    );
+  });
+
+  it("writes the expected versions to package.json and Nargo.toml", () => {
+    const fixed = applyFixes(root, checkToolchain(root));
+
+    expect(fixed).toStrictEqual(["package.json", "src/nr/gov/Nargo.toml"]);
+    const remaining = checkToolchain(root).filter((check) => !check.ok);
+    expect(
+      remaining.every(
+        (check) =>
+          check.file.startsWith("target/") ||
+          check.file.startsWith("src/artifacts/"),
+      ),
+    ).toBe(true);
+    expect(readFileSync(join(root, "src/nr/gov/Nargo.toml"), "utf8")).toContain(
+      'uint_note = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "v3.0.0-devnet.5"',
+    );
+  });
+});
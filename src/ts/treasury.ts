@@ -0,0 +1,59 @@
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { type ProvingWallet, TokenClient } from "./token_client.js";
+import { NFTClient } from "./nft_client.js";
+import {
+  type AssetEntry,
+  type AssetHoldings,
+  type TreasuryReport,
+} from "./treasury_report.js";
+
+export * from "./treasury_report.js";
+
+/**
+ * The wallet, node and account reading the holdings. The wallet must see the
+ * owner's notes: for a Governance treasury, register the instance with its
+ * secret key first, e.g. by connecting a `GovernanceClient`.
+ */
+export interface TreasuryContext {
+  wallet: ProvingWallet;
+  node: Pick<AztecNode, "getBlockNumber" | "getContract">;
+  from: AztecAddress;
+}
+
+/**
+ * Reads what an account, usually a Governance treasury, holds of every asset
+ * of a registry: token balances and NFTs, private and public, along with the
+ * name, symbol and decimals of each contract
+ * @param context - The wallet, node and reading account
+ * @param owner - The account whose holdings are read
+ * @param registry - The asset contracts, see `parseAssetRegistry`
+ */
+export async function readTreasuryReport(
+  context: TreasuryContext,
+  owner: AztecAddress,
+  registry: AssetEntry[],
+): Promise<TreasuryReport> {
+  const blockNumber = await context.node.getBlockNumber();
+  const assets: AssetHoldings[] = [];
+  for (const entry of registry) {
+    if (entry.kind === "token") {
+      const token = await TokenClient.connect(context, entry.address);
+      assets.push({
+        kind: "token",
+        address: entry.address,
+        ...(await token.getMetadata()),
+        ...(await token.getBalances(owner)),
+      });
+    } else {
+      const nft = await NFTClient.connect(context, entry.address);
+      assets.push({
+        kind: "nft",
+        address: entry.address,
+        ...(await nft.getMetadata()),
+        ...(await nft.getHoldings(owner, entry.tokenIds)),
+      });
+    }
+  }
+  return { owner, blockNumber, generatedAt: new Date(), assets };
+}
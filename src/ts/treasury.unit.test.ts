@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { Fr } from "@aztec/aztec.js/fields";
+import { FakeAztecNode, FakeWallet, type FakeCall } from "./fakes.js";
+import {
+  formatUnits,
+  parseAssetRegistry,
+  readTreasuryReport,
+  reportToCsv,
+  reportToJson,
+} from "./treasury.js";
+
+// A FieldCompressedString as the contracts return it
+const compressed = (text: string) => ({
+  value: BigInt(`0x${Buffer.from(text).toString("hex")}`),
+});
+
+describe("Treasury report", () => {
+  let node: FakeAztecNode;
+  let wallet: FakeWallet;
+  let treasury: AztecAddress;
+  let token: AztecAddress;
+  let nft: AztecAddress;
+
+  beforeEach(async () => {
+    node = new FakeAztecNode();
+    wallet = new FakeWallet(node);
+    treasury = await AztecAddress.random();
+    ({ address: token } = await node.addContract());
+    ({ address: nft } = await node.addContract());
+
+    wallet
+      .onSimulate("name", compressed("Gold, refined"), token)
+      .onSimulate("symbol", compressed("GLD"), token)
+      .onSimulate("decimals", 18n, token)
+      .onSimulate("balance_of_private", 1_500_000_000_000_000_000n, token)
+      .onSimulate("balance_of_public", 25n, token)
+      .onSimulate("public_get_name", compressed("Deeds"), nft)
+      .onSimulate("public_get_symbol", compressed("DEED"), nft)
+      .onSimulate("get_private_nfts", [[3n, 0n], false], nft)
+      .onSimulate(
+        "public_owner_of",
+        ({ args: [tokenId] }: FakeCall) =>
+          (tokenId as Fr).toBigInt() === 7n ? treasury : AztecAddress.ZERO,
+        nft,
+      );
+  });
+
+  it("formats amounts as decimals", () => {
+    expect(formatUnits(1_500_000_000_000_000_000n, 18)).toBe("1.5");
+    expect(formatUnits(25n, 18)).toBe("0.000000000000000025");
+    expect(formatUnits(1000n, 0)).toBe("1000");
+    expect(formatUnits(-120n, 2)).toBe("-1.2");
+    expect(formatUnits(0n, 6)).toBe("0");
+  });
+
+  it("escapes names and symbols a spreadsheet would run as formulas", () => {
+    const csv = reportToCsv({
+      owner: treasury,
+      blockNumber: 1,
+      generatedAt: new Date(),
+      assets: [
+        {
+          kind: "token",
+          address: token,
+          name: '=HYPERLINK("http://x")',
+          symbol: "@SUM",
+          decimals: 0,
+          private: 1n,
+          public: 0n,
+        },
+      ],
+    });
+    expect(csv.split("\n")[1]).toBe(
+      `1,token,${token},"'=HYPERLINK(""http://x"")",'@SUM,private,1,`,
+    );
+  });
+
+  it("parses a registry of tokens and NFTs", () => {
+    expect(
+      parseAssetRegistry(
+        JSON.stringify([
+          { kind: "token", address: token.toString() },
+          { kind: "nft", address: nft.toString(), tokenIds: ["7", 8] },
+        ]),
+      ),
+    ).toStrictEqual([
+      { kind: "token", address: token },
+      { kind: "nft", address: nft, tokenIds: [7n, 8n] },
+    ]);
+    expect(() =>
+      parseAssetRegistry(JSON.stringify([{ kind: "coin", address: "0x1" }])),
+    ).toThrow('Asset #0 has an unknown kind "coin"');
+  });
+
+  it("reads the holdings and reports them as JSON and CSV", async () => {
+    node.mineTx();
+    const report = await readTreasuryReport(
+      { wallet: wallet, node: node, from: treasury },
+      treasury,
+      [
+        { kind: "token", address: token },
+        { kind: "nft", address: nft, tokenIds: [7n, 8n] },
+      ],
+    );
+
+    expect(report).toMatchObject({
+      owner: treasury,
+      blockNumber: 1,
+      assets: [
+        {
+          kind: "token",
+          name: "Gold, refined",
+          symbol: "GLD",
+          decimals: 18,
+          private: 1_500_000_000_000_000_000n,
+          public: 25n,
+        },
+        { kind: "nft", name: "Deeds", private: [3n], public: [7n] },
+      ],
+    });
+    expect(JSON.parse(reportToJson(report)).assets[0]).toMatchObject({
+      private: "1.5",
+      public: "0.000000000000000025",
+      total: "1.500000000000000025",
+    });
+    expect(reportToCsv(report).split("\n")).toStrictEqual([
+      "block,kind,address,name,symbol,visibility,amount,token_id",
+      `1,token,${token},"Gold, refined",GLD,private,1.5,`,
+      `1,token,${token},"Gold, refined",GLD,public,0.000000000000000025,`,
+      `1,nft,${nft},Deeds,DEED,private,1,3`,
+      `1,nft,${nft},Deeds,DEED,public,1,7`,
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+
+/**
+ * The asset contracts a report covers
+ * @param tokenIds - optional - For NFTs, the ids to check public ownership of,
+ * since the contract only enumerates private notes
+ */
+export type AssetEntry =
+  | { kind: "token"; address: AztecAddress }
+  | { kind: "nft"; address: AztecAddress; tokenIds?: bigint[] };
+
+export interface TokenHoldings {
+  kind: "token";
+  address: AztecAddress;
+  name: string;
+  symbol: string;
+  decimals: number;
+  private: bigint;
+  public: bigint;
+}
+
+export interface NftHoldings {
+  kind: "nft";
+  address: AztecAddress;
+  name: string;
+  symbol: string;
+  private: bigint[];
+  public: bigint[];
+}
+
+export type AssetHoldings = TokenHoldings | NftHoldings;
+
+/**
+ * What an account holds across a registry of assets, at a block
+ */
+export interface TreasuryReport {
+  owner: AztecAddress;
+  blockNumber: number;
+  generatedAt: Date;
+  assets: AssetHoldings[];
+}
+
+/**
+ * Reads a registry of assets, e.g. from a JSON file:
+ * `[{ "kind": "token", "address": "0x..." }, { "kind": "nft", "address": "0x...", "tokenIds": ["1"] }]`
+ */
+export function parseAssetRegistry(json: string): AssetEntry[] {
+  const entries: unknown = JSON.parse(json);
+  if (!Array.isArray(entries)) {
+    throw new Error("The asset registry must be a JSON array");
+  }
+  return entries.map(({ kind, address, tokenIds }, i) => {
+    if (typeof address !== "string") {
+      throw new Error(`Asset #${i} has no address`);
+    }
+    switch (kind) {
+      case "token":
+        return { kind, address: AztecAddress.fromString(address) };
+      case "nft":
+        return {
+          kind,
+          address: AztecAddress.fromString(address),
+          tokenIds: ((tokenIds ?? []) as (string | number)[]).map(BigInt),
+        };
+      default:
+        throw new Error(
+          `Asset #${i} has an unknown kind "${kind}", use "token" or "nft"`,
+        );
+    }
+  });
+}
+
+/**
+ * Formats an amount of base units as a decimal, e.g. 1500000000000000000n with
+ * 18 decimals as "1.5"
+ */
+export function formatUnits(amount: bigint, decimals: number): string {
+  const sign = amount < 0n ? "-" : "";
+  const digits = (amount < 0n ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Serializes a report, with token amounts as decimals and NFT ids as strings
+ */
+export function reportToJson(report: TreasuryReport): string {
+  const { owner, blockNumber, generatedAt, assets } = report;
+  return JSON.stringify(
+    {
+      owner: owner.toString(),
+      blockNumber,
+      generatedAt: generatedAt.toISOString(),
+      assets: assets.map((asset) =>
+        asset.kind === "token"
+          ? {
+              ...asset,
+              address: asset.address.toString(),
+              private: formatUnits(asset.private, asset.decimals),
+              public: formatUnits(asset.public, asset.decimals),
+              total: formatUnits(asset.private + asset.public, asset.decimals),
+            }
+          : {
+              ...asset,
+              address: asset.address.toString(),
+              private: asset.private.map(String),
+              public: asset.public.map(String),
+            },
+      ),
+    },
+    null,
+    2,
+  );
+}
+
+const CSV_HEADER = [
+  "block",
+  "kind",
+  "address",
+  "name",
+  "symbol",
+  "visibility",
+  "amount",
+  "token_id",
+];
+
+/**
+ * Serializes a report as CSV: a row per token balance, and a row per NFT
+ */
+export function reportToCsv(report: TreasuryReport): string {
+  const rows: (string | number)[][] = [CSV_HEADER];
+  const block = report.blockNumber;
+  for (const asset of report.assets) {
+    const { kind } = asset;
+    const name = escapeFormula(asset.name);
+    const symbol = escapeFormula(asset.symbol);
+    const address = asset.address.toString();
+    if (asset.kind === "token") {
+      for (const visibility of ["private", "public"] as const) {
+        const amount = formatUnits(asset[visibility], asset.decimals);
+        rows.push([block, kind, address, name, symbol, visibility, amount, ""]);
+      }
+      continue;
+    }
+    for (const visibility of ["private", "public"] as const) {
+      for (const tokenId of asset[visibility]) {
+        const id = tokenId.toString();
+        rows.push([block, kind, address, name, symbol, visibility, "1", id]);
+      }
+    }
+  }
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+// Names and symbols are on-chain strings: prefix the ones a spreadsheet would
+// evaluate as a formula, e.g. "=HYPERLINK(...)", with a quote
+function escapeFormula(text: string): string {
+  return /^[=+\-@]/.test(text) ? `'${text}` : text;
+}
+
+// Quotes fields with separators, quotes or line breaks, as RFC 4180 does
+function csvField(value: string | number): string {
+  const field = String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
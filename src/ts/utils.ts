@@ -21,8 +21,25 @@ import {
   TokenContractArtifact,
 } from "../artifacts/Token.js";
 import { logger } from "@aztec/foundation/log";
+import {
+  INITIAL_TEST_ACCOUNT_SALTS,
+  INITIAL_TEST_ENCRYPTION_KEYS,
+  INITIAL_TEST_SECRET_KEYS,
+} from "@aztec/accounts/testing";
 import { NFTContract, NFTContractArtifact } from "../artifacts/NFT.js";
-import { expect } from "vitest";
+import { beforeAll, beforeEach, expect, inject } from "vitest";
+import {
+  DEFAULT_GOVERNANCE_CONFIG,
+  encodeGovernanceConfig,
+  type GovernanceConfig,
+} from "./governance_config.js";
+import { logTransactions } from "./test_log.js";
+import { type Fixture } from "./fixtures.js";
+import { listPrivateNfts } from "./nft_client.js";
+import {
+  advanceBlocks as advanceNodeBlocks,
+  advanceToBlock as advanceNodeToBlock,
+} from "./blocks.js";
 
 const { PXE_VERSION = "2" } = process.env;
 const pxeVersion = parseInt(PXE_VERSION);
@@ -30,55 +47,210 @@ const pxeVersion = parseInt(PXE_VERSION);
 const { NODE_URL = "http://localhost:8080" } = process.env;
 const node = createAztecNodeClient(NODE_URL);
 
+// Set by vitest.worker-setup.ts, test wallets log the transactions they send there
+const { TX_LOG_FILE } = process.env;
+const withTxLog = <W extends Wallet>(wallet: W): W =>
+  TX_LOG_FILE
+    ? logTransactions(
+        wallet,
+        TX_LOG_FILE,
+        () => expect.getState().currentTestName,
+      )
+    : wallet;
+
 const l1Contracts = await node.getL1ContractAddresses();
 const config = getPXEConfig();
 const fullConfig = { ...config, l1Contracts };
 fullConfig.proverEnabled = false;
 
-export const setupPXE = async (suffix?: string) => {
+// Test files run concurrently, so each suite gets its own store unless told otherwise
+const randomStoreSuffix = () => Fr.random().toString().slice(2, 10);
+
+export const setupStore = async (suffix?: string) => {
   const storeDir = suffix ? `store-${suffix}` : "store";
   const store: AztecLMDBStoreV2 = await createStore("pxe", pxeVersion, {
     dataDirectory: storeDir,
     dataStoreMapSizeKb: 1e6,
   });
+  return store;
+};
+
+export const setupPXE = async (suffix?: string) => {
+  const store = await setupStore(suffix);
   const pxe: PXE = await createPXE(node, fullConfig, { store });
   return { pxe, store };
 };
 
 /**
- * Setup the PXE, the store and the wallet
- * @param suffix - optional - The suffix to use for the store directory.
- * @returns The PXE, the store, the wallet and the accounts
+ * Setup the store and a wallet whose PXE runs on it
+ * @param suffix - optional - The suffix to use for the store directory, random by default.
+ * @returns The store, the wallet and the accounts
  */
-export const setupTestSuite = async (suffix?: string) => {
-  const { pxe, store } = await setupPXE(suffix);
+export const setupTestSuite = async (suffix = randomStoreSuffix()) => {
+  const store = await setupStore(suffix);
   const aztecNode = createAztecNodeClient(NODE_URL);
-  const wallet: TestWallet = await TestWallet.create(aztecNode);
+  const wallet: TestWallet = withTxLog(
+    await TestWallet.create(aztecNode, fullConfig, { store }),
+  );
   const accounts: AztecAddress[] =
     await registerInitialSandboxAccountsInWallet(wallet);
 
   return {
-    pxe,
     store,
     wallet,
     accounts,
   };
 };
 
+/**
+ * Restores the snapshot the sandboxes run before each suite, or each test, so
+ * tests start from the fixture state whatever the tests before them sent
+ * Call it first in the suite, hooks run in the order they are registered
+ * @param each - optional - Restore before each test instead of once, false by default
+ * @returns The snapshot fixture, null when no snapshot is set
+ */
+export function useSnapshot({ each = false } = {}): Fixture | null {
+  const fixture = inject("fixture");
+  const restoreUrl = inject("snapshotRestoreUrl");
+  if (fixture && restoreUrl) {
+    (each ? beforeEach : beforeAll)(async () => {
+      const response = await fetch(restoreUrl, {
+        method: "POST",
+        body: NODE_URL,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Could not restore snapshot "${fixture.name}": ${await response.text()}`,
+        );
+      }
+    });
+  }
+  return fixture;
+}
+
+/**
+ * A party of a multi-party test, with its own store, PXE and wallet
+ */
+export interface Actor {
+  name: string;
+  address: AztecAddress;
+  wallet: TestWallet;
+  store: AztecLMDBStoreV2;
+}
+
+/**
+ * Creates one isolated actor per name, each running its own PXE on its own store
+ * with only its own sandbox account. Actors only know each other's addresses,
+ * registered as senders so they can receive each other's notes; contracts and
+ * keys have to be shared explicitly, as in a real deployment.
+ * @param names - The actor names, at most one per sandbox account
+ * @returns The actors by name
+ */
+export async function createActors<Name extends string>(
+  names: readonly Name[],
+): Promise<Record<Name, Actor>> {
+  if (names.length > INITIAL_TEST_SECRET_KEYS.length) {
+    throw new Error(
+      `Only ${INITIAL_TEST_SECRET_KEYS.length} sandbox accounts are available`,
+    );
+  }
+
+  const aztecNode = createAztecNodeClient(NODE_URL);
+  const run = randomStoreSuffix();
+
+  const actors = await Promise.all(
+    names.map(async (name, i): Promise<Actor> => {
+      const store = await setupStore(`${name}-${run}`);
+      const wallet = withTxLog(
+        await TestWallet.create(aztecNode, fullConfig, { store }),
+      );
+      const account = await wallet.createSchnorrAccount(
+        INITIAL_TEST_SECRET_KEYS[i],
+        INITIAL_TEST_ACCOUNT_SALTS[i],
+        INITIAL_TEST_ENCRYPTION_KEYS[i],
+      );
+      return { name, address: account.address, wallet, store };
+    }),
+  );
+
+  for (const actor of actors) {
+    for (const other of actors) {
+      if (other !== actor) {
+        await actor.wallet.registerSender(other.address);
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    actors.map((actor) => [actor.name, actor]),
+  ) as Record<Name, Actor>;
+}
+
+/**
+ * Deletes the stores of the actors
+ * @param actors - The actors returned by `createActors`
+ */
+export async function deleteActors(actors: Record<string, Actor>) {
+  for (const actor of Object.values(actors)) {
+    await actor.store.delete();
+  }
+}
+
+/**
+ * Mines empty txs until the sandbox reaches the target block, so tests can
+ * move past a proposal's voting window.
+ * @param wallet - The wallet to send the txs with.
+ * @param from - The account to send the txs from.
+ * @param target - The block number to reach.
+ * @returns The block number reached.
+ */
+export async function advanceToBlock(
+  wallet: Wallet,
+  from: AztecAddress,
+  target: number,
+): Promise<number> {
+  return advanceNodeToBlock(wallet, node, from, target);
+}
+
+/**
+ * Mines empty txs until the sandbox is `blocks` blocks ahead.
+ * @param wallet - The wallet to send the txs with.
+ * @param from - The account to send the txs from.
+ * @param blocks - The number of blocks to advance.
+ * @returns The block number reached.
+ */
+export async function advanceBlocks(
+  wallet: Wallet,
+  from: AztecAddress,
+  blocks: number,
+): Promise<number> {
+  return advanceNodeBlocks(wallet, node, from, blocks);
+}
+
+/**
+ * Deploys the Governance contract with its own set of keys.
+ * @param publicKeys - The governance public keys.
+ * @param wallet - The wallet to deploy the contract with.
+ * @param deployer - The account to deploy the contract with.
+ * @param salt - The contract address salt.
+ * @param admin - The first member and admin, the deployer if not provided.
+ * @param config - The quorum, approval threshold and voting period, every member has to vote for within 100 blocks by default.
+ * @returns A deployed contract instance.
+ */
 export async function deployGovernance(
   publicKeys: PublicKeys,
   wallet: Wallet,
   deployer: AztecAddress,
   salt: Fr = Fr.random(),
-  args: unknown[] = [],
-  constructor?: string,
+  admin: AztecAddress = deployer,
+  config: GovernanceConfig = DEFAULT_GOVERNANCE_CONFIG,
 ): Promise<GovernanceContract> {
   const contract = await Contract.deployWithPublicKeys(
     publicKeys,
     wallet,
     GovernanceContractArtifact,
-    args,
-    constructor,
+    [admin, encodeGovernanceConfig(config)],
+    "constructor",
   )
     .send({ contractAddressSalt: salt, universalDeploy: true, from: deployer })
     .deployed();
@@ -190,8 +362,13 @@ export async function assertOwnsPrivateNFT(
   caller?: AztecAddress,
 ) {
   const from = caller ? (caller instanceof AztecAddress ? caller : caller) : owner;
-  const [nfts, _] = await nft.methods.get_private_nfts(owner, 0).simulate({ from });
-  const hasNFT = nfts.some((id: bigint) => id === tokenId);
+  let hasNFT = false;
+  for await (const id of listPrivateNfts(nft, owner, from)) {
+    if (id === tokenId) {
+      hasNFT = true;
+      break;
+    }
+  }
   expect(hasNFT).toBe(expectToBeTrue);
 }
 
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { TokenContract } from "../artifacts/Token.js";
+import { NFTContract } from "../artifacts/NFT.js";
+import { FakeWallet } from "./fakes.js";
+import { assertOwnsPrivateNFT, expectTokenBalances } from "./utils.js";
+
+describe("Test helpers", () => {
+  let wallet: FakeWallet;
+  let owner: AztecAddress;
+
+  beforeEach(async () => {
+    wallet = new FakeWallet();
+    owner = await AztecAddress.random();
+  });
+
+  it("expectTokenBalances checks the public and private balance", async () => {
+    const { address } = await wallet.node.addContract();
+    const token = await TokenContract.at(address, wallet);
+    wallet
+      .onSimulate("balance_of_public", 10n)
+      .onSimulate("balance_of_private", 25n);
+
+    await expectTokenBalances(token, owner, 10n, 25n);
+    await expect(expectTokenBalances(token, owner, 10n, 0n)).rejects.toThrow();
+
+    // Without a caller, the balances are read as the owner
+    expect(wallet.simulated[0]).toMatchObject({
+      name: "balance_of_public",
+      from: owner,
+    });
+    expect(wallet.simulated[1]).toMatchObject({
+      name: "balance_of_private",
+      args: [owner],
+    });
+  });
+
+  it("assertOwnsPrivateNFT looks for the token in the owner's private NFTs", async () => {
+    const { address } = await wallet.node.addContract();
+    const nft = await NFTContract.at(address, wallet);
+    wallet.onSimulate("get_private_nfts", [[1n, 2n, 0n], false]);
+
+    await assertOwnsPrivateNFT(nft, 2n, owner, true);
+    await assertOwnsPrivateNFT(nft, 3n, owner, false);
+    expect(wallet.simulated[0].args).toStrictEqual([owner, 0]);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * The share/asset math of the Token vault (`token_contract/src/main.nr`), to
+ * preview its operations off-chain, and the choice of the function to call.
+ */
+
+// `offset()` of the contract, virtual shares against inflation attacks
+export const VAULT_OFFSET = 1n;
+
+const BPS = 10_000n;
+
+export type Rounding = "up" | "down";
+
+/**
+ * What the exchange rate depends on
+ * @param totalAssets - The public asset balance of the vault
+ * @param totalSupply - The total supply of shares
+ */
+export interface VaultState {
+  totalAssets: bigint;
+  totalSupply: bigint;
+}
+
+/**
+ * Deposit assets for shares, mint exact shares for assets, withdraw exact
+ * assets for shares, or redeem shares for assets
+ */
+export type VaultOperation = "deposit" | "mint" | "withdraw" | "redeem";
+
+export type BalanceKind = "public" | "private";
+
+/**
+ * @param from - optional - The balance paying, private by default
+ * @param to - optional - The balance receiving, private by default
+ * @param maxSlippageBps - optional - How far the rate may move against the caller, in basis points, 50 (0.5%) by default.
+ * Public to public deposits, withdrawals and redemptions, private to public
+ * deposits and redemptions and public to private withdrawals take no bound:
+ * setting it for them throws, leaving it out calls them unbounded.
+ */
+export interface VaultCallOptions {
+  from?: BalanceKind;
+  to?: BalanceKind;
+  maxSlippageBps?: number;
+}
+
+/**
+ * The vault functions converting the amount at execution, without a bound:
+ * `(from, to, amount, _nonce)`
+ */
+export type UnboundedVaultMethod =
+  | "deposit_public_to_public"
+  | "deposit_private_to_public"
+  | "withdraw_public_to_public"
+  | "withdraw_public_to_private"
+  | "redeem_public_to_public"
+  | "redeem_private_to_public";
+
+/**
+ * The vault functions taking the converted amount or a bound on it:
+ * `(from, to, amount, limit, _nonce)`
+ */
+export type BoundedVaultMethod =
+  | "deposit_public_to_private"
+  | "deposit_public_to_private_exact"
+  | "deposit_private_to_private"
+  | "deposit_private_to_private_exact"
+  | "issue_public_to_public"
+  | "issue_public_to_private"
+  | "issue_private_to_public_exact"
+  | "issue_private_to_private_exact"
+  | "withdraw_private_to_public_exact"
+  | "withdraw_private_to_private"
+  | "withdraw_private_to_private_exact"
+  | "redeem_public_to_private_exact"
+  | "redeem_private_to_private_exact";
+
+/**
+ * The vault function to call, and its arguments besides `from`, `to` and `_nonce`
+ * @param amount - The exact amount: assets to deposit or withdraw, shares to mint or redeem
+ * @param preview - What the amount converts to at the current rate
+ * @param limit - The shares or assets argument of the function, only for the functions taking one
+ */
+export type VaultPlan = {
+  operation: VaultOperation;
+  amount: bigint;
+  preview: bigint;
+} & (
+  | { method: UnboundedVaultMethod; limit?: undefined }
+  | { method: BoundedVaultMethod; limit: bigint }
+);
+
+/**
+ * `_convert_to_shares`: assets * (totalSupply + offset) / (totalAssets + 1)
+ */
+export function convertToShares(
+  assets: bigint,
+  { totalAssets, totalSupply }: VaultState,
+  rounding: Rounding,
+): bigint {
+  return mulDiv(assets, totalSupply + VAULT_OFFSET, totalAssets + 1n, rounding);
+}
+
+/**
+ * `_convert_to_assets`: shares * (totalAssets + 1) / (totalSupply + offset)
+ */
+export function convertToAssets(
+  shares: bigint,
+  { totalAssets, totalSupply }: VaultState,
+  rounding: Rounding,
+): bigint {
+  return mulDiv(shares, totalAssets + 1n, totalSupply + VAULT_OFFSET, rounding);
+}
+
+/**
+ * @returns The shares a deposit of `assets` mints
+ */
+export const previewDeposit = (assets: bigint, state: VaultState) =>
+  convertToShares(assets, state, "down");
+
+/**
+ * @returns The assets minting `shares` costs
+ */
+export const previewMint = (shares: bigint, state: VaultState) =>
+  convertToAssets(shares, state, "up");
+
+/**
+ * @returns The shares a withdrawal of `assets` burns
+ */
+export const previewWithdraw = (assets: bigint, state: VaultState) =>
+  convertToShares(assets, state, "up");
+
+/**
+ * @returns The assets redeeming `shares` pays
+ */
+export const previewRedeem = (shares: bigint, state: VaultState) =>
+  convertToAssets(shares, state, "down");
+
+const PREVIEWS: Record<
+  VaultOperation,
+  (amount: bigint, state: VaultState) => bigint
+> = {
+  deposit: previewDeposit,
+  mint: previewMint,
+  withdraw: previewWithdraw,
+  redeem: previewRedeem,
+};
+
+/**
+ * Widens a previewed amount by the slippage, against the caller
+ * @param bound - "min" for what the caller receives, "max" for what they pay
+ */
+export function applySlippage(
+  amount: bigint,
+  maxSlippageBps: number,
+  bound: "min" | "max",
+): bigint {
+  if (!Number.isInteger(maxSlippageBps) || maxSlippageBps < 0) {
+    throw new Error(
+      `Invalid slippage ${maxSlippageBps}, use whole basis points`,
+    );
+  }
+  const bps = BigInt(maxSlippageBps);
+  return bound === "min"
+    ? mulDiv(amount, BPS - (bps > BPS ? BPS : bps), BPS, "down")
+    : mulDiv(amount, BPS + bps, BPS, "up");
+}
+
+/**
+ * How a function bounds the rate:
+ * - "none": no bound, the amount is converted at execution
+ * - "preview": takes the converted amount itself, any difference is kept by the vault
+ * - "slippage": takes a min to receive or a max to pay, and settles the difference
+ */
+type Candidate =
+  | { method: UnboundedVaultMethod; bound: "none" }
+  | { method: BoundedVaultMethod; bound: "preview" | "slippage" };
+
+type Route = `${BalanceKind}:${BalanceKind}`;
+
+// The candidates for each operation, from which balance to which, in order of preference
+const METHODS: Record<VaultOperation, Record<Route, Candidate[]>> = {
+  deposit: {
+    "public:public": [{ method: "deposit_public_to_public", bound: "none" }],
+    "private:public": [{ method: "deposit_private_to_public", bound: "none" }],
+    "public:private": [
+      { method: "deposit_public_to_private", bound: "preview" },
+      { method: "deposit_public_to_private_exact", bound: "slippage" },
+    ],
+    "private:private": [
+      { method: "deposit_private_to_private", bound: "preview" },
+      { method: "deposit_private_to_private_exact", bound: "slippage" },
+    ],
+  },
+  mint: {
+    "public:public": [{ method: "issue_public_to_public", bound: "slippage" }],
+    "public:private": [
+      { method: "issue_public_to_private", bound: "slippage" },
+    ],
+    "private:public": [
+      { method: "issue_private_to_public_exact", bound: "slippage" },
+    ],
+    "private:private": [
+      { method: "issue_private_to_private_exact", bound: "slippage" },
+    ],
+  },
+  withdraw: {
+    "public:public": [{ method: "withdraw_public_to_public", bound: "none" }],
+    "public:private": [{ method: "withdraw_public_to_private", bound: "none" }],
+    "private:public": [
+      { method: "withdraw_private_to_public_exact", bound: "slippage" },
+    ],
+    "private:private": [
+      { method: "withdraw_private_to_private", bound: "preview" },
+      { method: "withdraw_private_to_private_exact", bound: "slippage" },
+    ],
+  },
+  redeem: {
+    "public:public": [{ method: "redeem_public_to_public", bound: "none" }],
+    "public:private": [
+      { method: "redeem_public_to_private_exact", bound: "slippage" },
+    ],
+    "private:public": [{ method: "redeem_private_to_public", bound: "none" }],
+    "private:private": [
+      { method: "redeem_private_to_private_exact", bound: "slippage" },
+    ],
+  },
+};
+
+/**
+ * Picks the vault function for an operation and computes its bound.
+ * Without slippage, a function taking the previewed amount is preferred: it
+ * skips the commitment that settles the difference. With slippage, the
+ * `_exact` variant settles it, so the caller gets the actual rate.
+ * Functions converting at execution are called unbounded, and throw with an
+ * explicit slippage.
+ * @param operation - What to do
+ * @param amount - The exact amount: assets to deposit or withdraw, shares to mint or redeem
+ * @param state - The vault state to preview with
+ * @param options - optional - The balances and the max slippage
+ */
+export function planVaultCall(
+  operation: VaultOperation,
+  amount: bigint,
+  state: VaultState,
+  options: VaultCallOptions = {},
+): VaultPlan {
+  const { from = "private", to = "private", maxSlippageBps = 50 } = options;
+  const preview = PREVIEWS[operation](amount, state);
+  const candidates = METHODS[operation][`${from}:${to}`];
+  const candidate =
+    (maxSlippageBps === 0 &&
+      candidates.find(({ bound }) => bound === "preview")) ||
+    candidates.find(({ bound }) => bound !== "preview")!;
+
+  const plan = { operation, amount, preview };
+  switch (candidate.bound) {
+    case "none":
+      if (options.maxSlippageBps !== undefined) {
+        throw new Error(
+          `${candidate.method} converts at execution and can't bound the slippage, leave maxSlippageBps out to call it unbounded`,
+        );
+      }
+      return { ...plan, method: candidate.method };
+    case "preview":
+      return { ...plan, method: candidate.method, limit: preview };
+    case "slippage":
+      return {
+        ...plan,
+        method: candidate.method,
+        limit: applySlippage(
+          preview,
+          maxSlippageBps,
+          operation === "deposit" || operation === "redeem" ? "min" : "max",
+        ),
+      };
+  }
+}
+
+function mulDiv(
+  value: bigint,
+  numerator: bigint,
+  denominator: bigint,
+  rounding: Rounding,
+): bigint {
+  const product = value * numerator;
+  const result = product / denominator;
+  return rounding === "up" && product % denominator > 0n ? result + 1n : result;
+}
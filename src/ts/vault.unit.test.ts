@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  applySlippage,
+  planVaultCall,
+  previewDeposit,
+  previewMint,
+  previewRedeem,
+  previewWithdraw,
+  type VaultState,
+} from "./vault.js";
+
+describe("Vault math", () => {
+  // 3 shares for every 2 assets, give or take the virtual share and asset
+  const state: VaultState = { totalAssets: 1000n, totalSupply: 1500n };
+
+  it("rounds previews in favor of the vault", () => {
+    expect(previewDeposit(0n, { totalAssets: 0n, totalSupply: 0n })).toBe(0n);
+    expect(previewDeposit(1n, { totalAssets: 0n, totalSupply: 0n })).toBe(1n);
+
+    // 100 * 1501 / 1001 = 149.95
+    expect(previewDeposit(100n, state)).toBe(149n);
+    expect(previewWithdraw(100n, state)).toBe(150n);
+    // 100 * 1001 / 1501 = 66.69
+    expect(previewRedeem(100n, state)).toBe(66n);
+    expect(previewMint(100n, state)).toBe(67n);
+  });
+
+  it("widens a preview by the slippage, against the caller", () => {
+    expect(applySlippage(10_000n, 50, "min")).toBe(9950n);
+    expect(applySlippage(10_000n, 50, "max")).toBe(10_050n);
+    expect(applySlippage(999n, 1, "max")).toBe(1000n);
+    expect(applySlippage(100n, 20_000, "min")).toBe(0n);
+    expect(() => applySlippage(100n, 0.5, "min")).toThrow(
+      "Invalid slippage 0.5",
+    );
+  });
+
+  it("picks the _exact variant and bounds it with the slippage", () => {
+    expect(planVaultCall("deposit", 100n, state)).toStrictEqual({
+      operation: "deposit",
+      method: "deposit_private_to_private_exact",
+      amount: 100n,
+      preview: 149n,
+      limit: 148n,
+    });
+    expect(
+      planVaultCall("mint", 100n, state, { from: "public", to: "public" }),
+    ).toMatchObject({ method: "issue_public_to_public", limit: 68n });
+    expect(
+      planVaultCall("withdraw", 100n, state, {
+        to: "public",
+        maxSlippageBps: 100,
+      }),
+    ).toMatchObject({
+      method: "withdraw_private_to_public_exact",
+      limit: 152n,
+    });
+    expect(
+      planVaultCall("redeem", 100n, state, { from: "public" }),
+    ).toMatchObject({ method: "redeem_public_to_private_exact", limit: 65n });
+  });
+
+  it("takes the preview itself without slippage, where a function allows it", () => {
+    expect(
+      planVaultCall("deposit", 100n, state, { maxSlippageBps: 0 }),
+    ).toMatchObject({ method: "deposit_private_to_private", limit: 149n });
+    expect(
+      planVaultCall("withdraw", 100n, state, { maxSlippageBps: 0 }),
+    ).toMatchObject({ method: "withdraw_private_to_private", limit: 150n });
+    expect(
+      planVaultCall("redeem", 100n, state, { maxSlippageBps: 0 }),
+    ).toMatchObject({ method: "redeem_private_to_private_exact", limit: 66n });
+
+    // Functions converting at execution take no bound
+    const plan = planVaultCall("deposit", 100n, state, {
+      from: "public",
+      to: "public",
+    });
+    expect(plan.method).toBe("deposit_public_to_public");
+    expect(plan).not.toHaveProperty("limit");
+  });
+
+  it("refuses a slippage on functions that can't bound the rate", () => {
+    expect(() =>
+      planVaultCall("redeem", 100n, state, {
+        to: "public",
+        maxSlippageBps: 100,
+      }),
+    ).toThrow("redeem_private_to_public converts at execution");
+    expect(() =>
+      planVaultCall("withdraw", 100n, state, {
+        from: "public",
+        maxSlippageBps: 0,
+      }),
+    ).toThrow("withdraw_public_to_private converts at execution");
+  });
+});
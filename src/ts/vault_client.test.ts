@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { type TestWallet } from "@aztec/test-wallet/server";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/stdlib/aztec-address";
+import { type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { deployTokenWithMinter, setupTestSuite } from "./utils.js";
+import { TokenClient } from "./token_client.js";
+import { VaultClient } from "./vault_client.js";
+
+const { NODE_URL = "http://localhost:8080" } = process.env;
+
+describe("VaultClient", () => {
+  let store: AztecLMDBStoreV2;
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let minter: AztecAddress;
+  let alice: AztecAddress;
+  let asset: TokenClient;
+  let vault: VaultClient;
+
+  beforeEach(async () => {
+    let accounts: AztecAddress[];
+    ({ store, wallet, accounts } = await setupTestSuite());
+    [minter, alice] = accounts;
+
+    node = createAztecNodeClient(NODE_URL);
+    const contract = await deployTokenWithMinter(wallet, minter);
+    await contract.methods
+      .mint_to_private(alice, 1000n)
+      .send({ from: minter })
+      .wait();
+    await contract.methods
+      .mint_to_public(alice, 1000n)
+      .send({ from: minter })
+      .wait();
+    asset = await TokenClient.connect(
+      { wallet, node, from: alice },
+      contract.address,
+    );
+    vault = await VaultClient.deploy(
+      { wallet, node, from: alice },
+      contract.address,
+    );
+  });
+
+  afterEach(async () => {
+    await store.delete();
+  });
+
+  it("deposits and redeems at the previewed rate", async () => {
+    expect(await vault.previewDeposit(100n)).toBe(100n);
+    const deposit = await vault.deposit(100n);
+    expect(deposit).toMatchObject({
+      method: "deposit_private_to_private_exact",
+      preview: 100n,
+      limit: 99n,
+    });
+
+    // A public deposit pulls the assets with a public authwit
+    await vault.deposit(100n, { from: "public", to: "public" });
+    expect(await vault.getState()).toStrictEqual({
+      totalAssets: 200n,
+      totalSupply: 200n,
+    });
+
+    await vault.redeem(50n, { to: "public" });
+    expect(await asset.getBalances()).toStrictEqual({
+      private: 900n,
+      public: 950n,
+    });
+  });
+
+  it("mints and withdraws exact amounts within the slippage", async () => {
+    await vault.deposit(100n);
+
+    const mint = await vault.mint(50n, { maxSlippageBps: 100 });
+    expect(mint).toMatchObject({
+      method: "issue_private_to_private_exact",
+      preview: 50n,
+      limit: 51n,
+    });
+
+    const withdraw = await vault.withdraw(30n, { maxSlippageBps: 0 });
+    expect(withdraw.method).toBe("withdraw_private_to_private");
+    expect(await asset.getBalances()).toStrictEqual({
+      private: 880n,
+      public: 1000n,
+    });
+    expect(await vault.getState()).toStrictEqual({
+      totalAssets: 120n,
+      totalSupply: 120n,
+    });
+  });
+
+  it("connects to a deployed vault", async () => {
+    const connected = await VaultClient.connect(
+      { wallet, node, from: minter },
+      vault.address,
+      vault.assetAddress,
+    );
+    expect(await connected.previewMint(10n)).toBe(10n);
+    await expect(
+      connected.withSender(alice).withdraw(1n, { from: "public" }),
+    ).rejects.toThrow();
+  });
+});
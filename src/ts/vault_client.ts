@@ -0,0 +1,294 @@
+import { type Wallet } from "@aztec/aztec.js/wallet";
+import { type AztecNode } from "@aztec/aztec.js/node";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { type TxReceipt } from "@aztec/aztec.js/tx";
+import { SetPublicAuthwitContractInteraction } from "@aztec/aztec.js/authorization";
+import { BatchCall, Contract } from "@aztec/aztec.js/contracts";
+import { TokenContract, TokenContractArtifact } from "../artifacts/Token.js";
+import {
+  planVaultCall,
+  previewDeposit,
+  previewMint,
+  previewRedeem,
+  previewWithdraw,
+  type VaultCallOptions,
+  type VaultOperation,
+  type VaultPlan,
+  type VaultState,
+} from "./vault.js";
+import { createPrivateAuthwit } from "./authwit.js";
+
+export * from "./vault.js";
+
+/**
+ * The wallet, node and account a client acts with
+ */
+export interface VaultClientContext {
+  wallet: Wallet;
+  node: Pick<AztecNode, "getContract">;
+  from: AztecAddress;
+}
+
+/**
+ * @param recipient - optional - Who receives the shares or assets, the sender by default
+ */
+export interface VaultClientOptions extends VaultCallOptions {
+  recipient?: AztecAddress;
+}
+
+/**
+ * What an operation did: the plan it followed and the receipt of its tx
+ */
+export type VaultResult = VaultPlan & { receipt: TxReceipt };
+
+/**
+ * Typed wrapper around a Token deployed as a vault of another Token, the asset.
+ * Previews operations with the contract's own math and protects them with a
+ * max slippage, see `planVaultCall`.
+ */
+export class VaultClient {
+  private constructor(
+    private readonly context: VaultClientContext,
+    private readonly vault: TokenContract,
+    private readonly asset: TokenContract,
+  ) {}
+
+  /**
+   * Deploys a vault of an asset, with `constructor_with_asset`
+   * @param context - The wallet, node and deployer account
+   * @param asset - The address of the asset Token, registered in the wallet
+   * @returns A client connected to the new vault
+   */
+  static async deploy(
+    context: VaultClientContext,
+    asset: AztecAddress,
+  ): Promise<VaultClient> {
+    const { wallet, from } = context;
+    const vault = (await Contract.deploy(
+      wallet,
+      TokenContractArtifact,
+      ["VaultShares", "VS", 18, asset, AztecAddress.ZERO],
+      "constructor_with_asset",
+    )
+      .send({ from })
+      .deployed()) as TokenContract;
+
+    return new VaultClient(
+      context,
+      vault,
+      await TokenContract.at(asset, wallet),
+    );
+  }
+
+  /**
+   * Connects to a deployed vault, registering it and its asset in the wallet
+   * @param context - The wallet, node and acting account
+   * @param vault - The address of the vault
+   * @param asset - The address of its asset, which the contract doesn't expose
+   * @returns A client connected to the vault
+   */
+  static async connect(
+    context: VaultClientContext,
+    vault: AztecAddress,
+    asset: AztecAddress,
+  ): Promise<VaultClient> {
+    const { wallet, node } = context;
+    for (const address of [vault, asset]) {
+      const instance = await node.getContract(address);
+      if (!instance) {
+        throw new Error(`No contract instance found at ${address.toString()}`);
+      }
+      await wallet.registerContract(instance, TokenContractArtifact);
+    }
+
+    return new VaultClient(
+      context,
+      await TokenContract.at(vault, wallet),
+      await TokenContract.at(asset, wallet),
+    );
+  }
+
+  get address(): AztecAddress {
+    return this.vault.address;
+  }
+
+  get assetAddress(): AztecAddress {
+    return this.asset.address;
+  }
+
+  get from(): AztecAddress {
+    return this.context.from;
+  }
+
+  /**
+   * Returns a client acting as another account of the same wallet
+   * @param from - The account to act as
+   */
+  withSender(from: AztecAddress): VaultClient {
+    return new VaultClient({ ...this.context, from }, this.vault, this.asset);
+  }
+
+  /**
+   * @returns The assets the vault holds and the shares it issued
+   */
+  async getState(): Promise<VaultState> {
+    const { wallet } = this.context;
+    return {
+      totalAssets: BigInt(
+        await this.asset
+          .withWallet(wallet)
+          .methods.balance_of_public(this.address)
+          .simulate({ from: this.from }),
+      ),
+      totalSupply: BigInt(
+        await this.vault
+          .withWallet(wallet)
+          .methods.total_supply()
+          .simulate({ from: this.from }),
+      ),
+    };
+  }
+
+  /**
+   * @returns The shares depositing `assets` mints at the current rate
+   */
+  async previewDeposit(assets: bigint): Promise<bigint> {
+    return previewDeposit(assets, await this.getState());
+  }
+
+  /**
+   * @returns The assets minting `shares` costs at the current rate
+   */
+  async previewMint(shares: bigint): Promise<bigint> {
+    return previewMint(shares, await this.getState());
+  }
+
+  /**
+   * @returns The shares withdrawing `assets` burns at the current rate
+   */
+  async previewWithdraw(assets: bigint): Promise<bigint> {
+    return previewWithdraw(assets, await this.getState());
+  }
+
+  /**
+   * @returns The assets redeeming `shares` pays at the current rate
+   */
+  async previewRedeem(shares: bigint): Promise<bigint> {
+    return previewRedeem(shares, await this.getState());
+  }
+
+  /**
+   * Deposits exactly `assets`, for at least the previewed shares minus slippage
+   */
+  async deposit(
+    assets: bigint,
+    options: VaultClientOptions = {},
+  ): Promise<VaultResult> {
+    return this.execute("deposit", assets, options);
+  }
+
+  /**
+   * Mints exactly `shares`, for at most the previewed assets plus slippage
+   */
+  async mint(
+    shares: bigint,
+    options: VaultClientOptions = {},
+  ): Promise<VaultResult> {
+    return this.execute("mint", shares, options);
+  }
+
+  /**
+   * Withdraws exactly `assets`, burning at most the previewed shares plus slippage
+   */
+  async withdraw(
+    assets: bigint,
+    options: VaultClientOptions = {},
+  ): Promise<VaultResult> {
+    return this.execute("withdraw", assets, options);
+  }
+
+  /**
+   * Redeems exactly `shares`, for at least the previewed assets minus slippage
+   */
+  async redeem(
+    shares: bigint,
+    options: VaultClientOptions = {},
+  ): Promise<VaultResult> {
+    return this.execute("redeem", shares, options);
+  }
+
+  private async execute(
+    operation: VaultOperation,
+    amount: bigint,
+    options: VaultClientOptions,
+  ): Promise<VaultResult> {
+    const { wallet } = this.context;
+    const { recipient = this.from, from = "private" } = options;
+    const plan = planVaultCall(operation, amount, await this.getState(), {
+      ...options,
+      from,
+    });
+
+    // The vault takes deposits with an authwit on the asset, which commits to the nonce
+    const pays = operation === "deposit" || operation === "mint";
+    const nonce = pays ? Fr.random() : Fr.ZERO;
+    const methods = this.vault.withWallet(wallet).methods;
+    const action =
+      plan.limit === undefined
+        ? methods[plan.method](this.from, recipient, plan.amount, nonce)
+        : methods[plan.method](
+            this.from,
+            recipient,
+            plan.amount,
+            plan.limit,
+            nonce,
+          );
+    if (!pays) {
+      return {
+        ...plan,
+        receipt: await action.send({ from: this.from }).wait(),
+      };
+    }
+
+    // What the vault pulls from the asset balance: the deposit, or the max paid for a mint
+    const assets = operation === "deposit" ? plan.amount : plan.limit!;
+    const assetMethods = this.asset.withWallet(wallet).methods;
+    if (from === "private") {
+      const authwit = await createPrivateAuthwit(wallet, {
+        owner: this.from,
+        caller: this.address,
+        action: assetMethods.transfer_private_to_public(
+          this.from,
+          this.address,
+          assets,
+          nonce,
+        ),
+      });
+      const receipt = await action
+        .send({ from: this.from, authWitnesses: [authwit] })
+        .wait();
+      return { ...plan, receipt };
+    }
+
+    // Public authwits are set in the AuthRegistry, in the same tx
+    const setAuthwit = await SetPublicAuthwitContractInteraction.create(
+      wallet,
+      this.from,
+      {
+        caller: this.address,
+        action: assetMethods.transfer_public_to_public(
+          this.from,
+          this.address,
+          assets,
+          nonce,
+        ),
+      },
+      true,
+    );
+    const receipt = await new BatchCall(wallet, [setAuthwit, action])
+      .send({ from: this.from })
+      .wait();
+    return { ...plan, receipt };
+  }
+}
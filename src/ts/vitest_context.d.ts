@@ -0,0 +1,16 @@
+import { type Fixture } from "./fixtures.js";
+
+// What vitest.setup.ts provides to the tests, read with `inject`
+declare module "vitest" {
+  export interface ProvidedContext {
+    // One node URL per test worker, see vitest.worker-setup.ts
+    nodeUrls: string[];
+    // The contracts of the snapshot the sandboxes run, see src/ts/fixtures.ts
+    fixture: Fixture | null;
+    // Where `useSnapshot` asks to restore the snapshot, null without a snapshot
+    snapshotRestoreUrl: string | null;
+    // The log directory of this run, and the sandbox log of each node URL
+    logDir: string;
+    sandboxLogs: (string | undefined)[];
+  }
+}
@@ -9,6 +9,9 @@ const nobleUtilsPath = pathResolve(
   "node_modules/@noble/hashes/esm/utils.js",
 );
 
+// Every worker runs its test files against its own sandbox, see vitest.setup.ts
+const sandboxCount = Number(process.env.SANDBOXES ?? 1);
+
 export default defineConfig({
   resolve: {
     alias: {
@@ -21,12 +24,32 @@ export default defineConfig({
     // aztec sandbox tests take quite some time
     hookTimeout: 200000,
     testTimeout: 200000,
-    globalSetup: "./vitest.setup.ts",
-    fileParallelism: false,
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "sandbox",
+          include: ["src/ts/**/*.test.ts"],
+          exclude: ["src/ts/**/*.unit.test.ts"],
+          globalSetup: "./vitest.setup.ts",
+          setupFiles: ["./vitest.worker-setup.ts"],
+        },
+      },
+      {
+        // Runs against the in-memory fakes of src/ts/fakes.ts, no sandbox needed
+        extends: true,
+        test: {
+          name: "unit",
+          include: ["src/ts/**/*.unit.test.ts"],
+          setupFiles: ["./vitest.unit-setup.ts"],
+        },
+      },
+    ],
     pool: "forks",
     poolOptions: {
       forks: {
-        singleFork: true,
+        minForks: 1,
+        maxForks: sandboxCount,
         isolate: false,
         execArgv: ["--experimental-vm-modules"],
       },
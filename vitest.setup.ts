@@ -1,14 +1,32 @@
+/// <reference path="./src/ts/vitest_context.d.ts" />
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { join } from "path";
+import type { TestProject } from "vitest/node";
 import { checkAztecVersion } from "./scripts/check-aztec-version.js";
-import { startSandbox } from "./scripts/start-sandbox.js";
+import {
+  getSnapshotPath,
+  SandboxManager,
+  startSandboxes,
+} from "./scripts/start-sandbox.js";
+import { readFixture } from "./src/ts/fixtures.js";
 
 /**
  * Vitest global setup - runs before all tests
+ * Starts one sandbox per test worker, `SANDBOXES` (1 by default), from the
+ * `SANDBOX_SNAPSHOT` snapshot if set, and serves the restores `useSnapshot`
+ * asks for, see src/ts/utils.ts
+ * Sandbox output and the transactions sent by tests go to log/<timestamp>/
  * Returns a teardown function that runs after all tests
  */
-export async function setup() {
+export async function setup(project: TestProject) {
   console.log("\n🔧 Setting up Aztec testing environment\n");
 
-  let sandboxManager: any;
+  const sandboxCount = Number(process.env.SANDBOXES ?? 1);
+  const snapshot = process.env.SANDBOX_SNAPSHOT;
+  const logDir = join("log", new Date().toISOString().replace(/[:.]/g, "-"));
+  let sandboxManagers: SandboxManager[] = [];
+  let restoreServer: Server | undefined;
 
   try {
     // Step 1: Check Aztec CLI version
@@ -16,13 +34,37 @@ export async function setup() {
     await checkAztecVersion();
     console.log("");
 
-    // Step 2: Start sandbox and wait for readiness
-    console.log("Step 2: Starting Aztec sandbox");
-    sandboxManager = await startSandbox();
+    // Step 2: Start sandboxes and wait for readiness
+    console.log(`Step 2: Starting ${sandboxCount} Aztec sandbox(es)`);
+    sandboxManagers = await startSandboxes(sandboxCount, {
+      snapshot,
+      logDirectory: logDir,
+    });
+    console.log(`📝 Logs in ${logDir}/`);
     console.log("");
 
-    // Store sandbox manager globally for teardown
-    globalThis.__AZTEC_SANDBOX_MANAGER__ = sandboxManager;
+    project.provide(
+      "nodeUrls",
+      sandboxManagers.map((manager) => manager.nodeUrl),
+    );
+    project.provide(
+      "fixture",
+      snapshot ? readFixture(getSnapshotPath(snapshot)) : null,
+    );
+    if (snapshot) {
+      restoreServer = await startRestoreServer(sandboxManagers, snapshot);
+    }
+    project.provide(
+      "snapshotRestoreUrl",
+      restoreServer
+        ? `http://127.0.0.1:${(restoreServer.address() as AddressInfo).port}`
+        : null,
+    );
+    project.provide("logDir", logDir);
+    project.provide(
+      "sandboxLogs",
+      sandboxManagers.map((manager) => manager.logFile),
+    );
   } catch (error) {
     console.error(`\n❌ Setup failed: ${error.message}`);
     process.exit(1);
@@ -33,9 +75,10 @@ export async function setup() {
     console.log("\nLast Step: Cleaning up Aztec testing environment");
 
     try {
-      if (sandboxManager) {
-        await sandboxManager.stop();
-        console.log("✅ Sandbox stopped successfully");
+      restoreServer?.close();
+      if (sandboxManagers.length > 0) {
+        await Promise.all(sandboxManagers.map((manager) => manager.stop()));
+        console.log("✅ Sandboxes stopped successfully");
       } else {
         console.log("ℹ️  No sandbox manager found, skipping cleanup");
       }
@@ -47,3 +90,37 @@ export async function setup() {
     }
   };
 }
+
+/**
+ * Serve snapshot restores to the test workers, which cannot reach the sandbox
+ * managers of this process
+ * A POST with the node URL of a sandbox restarts it from the snapshot, and
+ * answers once it is ready
+ * @returns The server, listening on a free local port
+ */
+async function startRestoreServer(
+  sandboxManagers: SandboxManager[],
+  snapshot: string,
+): Promise<Server> {
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    const manager = sandboxManagers.find((manager) => manager.nodeUrl === body);
+    if (request.method !== "POST" || !manager) {
+      response.writeHead(404).end(`No sandbox at ${body}`);
+      return;
+    }
+    try {
+      await manager.restoreSnapshot(snapshot);
+      response.writeHead(204).end();
+    } catch (error) {
+      response.writeHead(500).end(error.message);
+    }
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  return server;
+}
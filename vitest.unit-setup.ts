@@ -0,0 +1,13 @@
+import { vi } from "vitest";
+
+/**
+ * Vitest setup file of the unit project - runs in every worker before its test files
+ * `utils.ts` connects to NODE_URL when imported, give it a fake node instead
+ */
+vi.mock("@aztec/aztec.js/node", async (importOriginal) => {
+  const { FakeAztecNode } = await import("./src/ts/fakes.js");
+  return {
+    ...(await importOriginal<typeof import("@aztec/aztec.js/node")>()),
+    createAztecNodeClient: () => new FakeAztecNode(),
+  };
+});
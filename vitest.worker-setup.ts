@@ -0,0 +1,47 @@
+import { appendFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { beforeEach, expect, inject } from "vitest";
+import {
+  findSandboxLogLines,
+  formatFailureSummary,
+  readTxLog,
+} from "./src/ts/test_log.js";
+
+/**
+ * Vitest setup file - runs in every worker before its test files
+ * Points NODE_URL at the sandbox of this worker, unless a single sandbox runs
+ * and NODE_URL was set by hand
+ * Logs the transactions of this worker in TX_LOG_FILE, see src/ts/test_log.ts,
+ * and summarizes them with the matching sandbox log lines when a test fails
+ */
+const nodeUrls = inject("nodeUrls");
+const poolId = Number(process.env.VITEST_POOL_ID ?? 1);
+const sandbox = (poolId - 1) % nodeUrls.length;
+
+if (nodeUrls.length > 1 || !process.env.NODE_URL) {
+  process.env.NODE_URL = nodeUrls[sandbox];
+}
+
+const logDir = inject("logDir");
+const sandboxLog = inject("sandboxLogs")[sandbox];
+const txLogFile = join(logDir, `txs-${poolId}.jsonl`);
+process.env.TX_LOG_FILE = txLogFile;
+mkdirSync(logDir, { recursive: true });
+
+beforeEach((context) => {
+  const since = new Date();
+  const test = expect.getState().currentTestName ?? context.task.name;
+
+  context.onTestFailed(() => {
+    const txs = readTxLog(txLogFile).filter((tx) => tx.test === test);
+    const lines = sandboxLog
+      ? findSandboxLogLines(sandboxLog, {
+          since,
+          txHashes: txs.flatMap((tx) => (tx.txHash ? [tx.txHash] : [])),
+        })
+      : [];
+    const summary = formatFailureSummary(test, txs, sandboxLog, lines);
+    console.error(`\n${summary}\n`);
+    appendFileSync(join(logDir, "failures.md"), `${summary}\n\n`);
+  });
+});